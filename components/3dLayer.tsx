@@ -1,467 +1,534 @@
 "use client";
 
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
-import { OrbitControls, Text, RoundedBox, Sphere, Environment } from "@react-three/drei";
-import { useRef, useState, useCallback, useEffect, useMemo } from "react";
-import { create } from "zustand";
-import { subscribeWithSelector } from "zustand/middleware";
+import { OrbitControls, Text, RoundedBox, Environment } from "@react-three/drei";
+import { useRef, useState, useEffect, useSyncExternalStore } from "react";
+import { shallow } from "zustand/shallow";
+import { useShallow } from "zustand/react/shallow";
 import * as THREE from "three";
+import {
+  boardShape,
+  canAddLayer,
+  canRemoveLayer,
+  directionAxis,
+  LAYER_COSTS,
+  lockedLayers,
+  milestones,
+  PRESET_CONFIGS,
+  RULE_VARIANTS,
+  specialTile,
+  TARGET_VALUES,
+  type LayerCost,
+  type RuleVariant,
+  type TileMove,
+} from "../lib/engine";
+import {
+  allCoords,
+  axisName,
+  cellCoords,
+  getCell,
+  LAYER_AXIS,
+  layerCount,
+  type Board,
+  type Coords,
+} from "../lib/board";
+import { loadFromStorage, saveToStorage } from "../lib/persistence";
+import { createGamepadReader, swipeAction } from "../lib/input";
+import { createSoundPlayer } from "../lib/audio";
+import { cameraPose, DEFAULT_LAYER_SPACING, layerHeight, type CameraPose } from "../lib/camera";
+import {
+  boundAction,
+  formatCombo,
+  isEditableTarget,
+  keyCombo,
+  type KeyAction,
+  type Keymap,
+} from "../lib/keymap";
+import { challengeLabel } from "../lib/challenge";
+import { tileColor, tileTextColor } from "../lib/theme";
+import { challengeStatus, gameEvents, snapshot, useGameStore } from "./gameStore";
+import { useReplayStore } from "./replayStore";
+import { useStatsStore } from "./statsStore";
+import { useChallengeStore } from "./challengeStore";
+import { useKeymapStore } from "./keymapStore";
+import { useSoundStore } from "./soundStore";
+import { useThemeStore } from "./themeStore";
+import { useCameraStore } from "./cameraStore";
+import { useRacing, useVersusStore } from "./versusStore";
+import { useCurrentHint, useSolverStore } from "./solverStore";
+import { getTileFontSize, getTileLabel, SPECIAL_TILES } from "./tiles";
+import { ReplayControls } from "./replayControls";
+import { SavePanel, SeedPanel } from "./savePanel";
+import { SolverPanel } from "./solverPanel";
+import { VersusPanel } from "./versusPanel";
+import { CameraPanel } from "./cameraPanel";
+import { KeymapSettings } from "./keymapSettings";
+import { ChallengeMenu, ChallengeResultScreen } from "./challengeMenu";
+import { ThemePicker } from "./themePicker";
+import { StatsPanel } from "./statsPanel";
+import { performInput, performKeyAction, pollGamepads } from "./inputActions";
+import { Announcer, DomView, FrameDriver } from "./domView";
 
-// Game state types
-type Direction = 'up' | 'down' | 'left' | 'right' | 'layer-up' | 'layer-down';
-type GameGrid = number[][];
-type LayeredGrid = GameGrid[];
+// Utility functions
+const TILE_SPACING = 1.1;
+const STACK_GAP = 1.5;
 
-// Game state store
-interface GameState {
-  layers: LayeredGrid;
-  currentLayer: number;
-  totalLayers: number;
-  score: number;
-  gameWon: boolean;
-  gameOver: boolean;
-  animatingTiles: Map<string, { from: [number, number, number]; to: [number, number, number]; value: number; id: string }>;
-  newTiles: Set<string>;
-  reset: () => void;
-  move: (direction: Direction) => void;
-  addRandomTile: (layer?: number) => void;
-  checkGameStatus: () => void;
-  addLayer: () => void;
-  setCurrentLayer: (layer: number) => void;
-}
+// Where the stack for a cell's hyper coordinates sits: hyper axes alternate between
+// spreading stacks along x and along y, each one nesting the grid built by the previous ones
+function stackOffset(shape: number[], coords: Coords): [number, number] {
+  let stepX = shape[0] * TILE_SPACING + STACK_GAP;
+  let stepY = shape[1] * TILE_SPACING + STACK_GAP;
+  let x = 0;
+  let y = 0;
 
-const useGameStore = create<GameState>()(
-  subscribeWithSelector((set, get) => ({
-    layers: [Array(4).fill(null).map(() => Array(4).fill(0))],
-    currentLayer: 0,
-    totalLayers: 1,
-    score: 0,
-    gameWon: false,
-    gameOver: false,
-    animatingTiles: new Map(),
-    newTiles: new Set(),
-
-    reset: () => {
-      const newLayers = [Array(4).fill(null).map(() => Array(4).fill(0))];
-      set({ 
-        layers: newLayers,
-        currentLayer: 0,
-        totalLayers: 1,
-        score: 0, 
-        gameWon: false, 
-        gameOver: false,
-        animatingTiles: new Map(),
-        newTiles: new Set()
-      });
-      // Add initial tiles
-      get().addRandomTile(0);
-      get().addRandomTile(0);
-    },
-
-    addRandomTile: (layerIndex?: number) => {
-      const { layers, currentLayer } = get();
-      const targetLayer = layerIndex !== undefined ? layerIndex : currentLayer;
-      const grid = layers[targetLayer];
-      
-      if (!grid) return;
-      
-      const emptyCells: [number, number][] = [];
-      
-      for (let i = 0; i < 4; i++) {
-        for (let j = 0; j < 4; j++) {
-          if (grid[i][j] === 0) {
-            emptyCells.push([i, j]);
-          }
-        }
-      }
-
-      if (emptyCells.length > 0) {
-        const [row, col] = emptyCells[Math.floor(Math.random() * emptyCells.length)];
-        const value = Math.random() < 0.9 ? 2 : 4;
-        const newLayers = layers.map(layer => layer.map(row => [...row]));
-        newLayers[targetLayer][row][col] = value;
-        
-        const newTiles = new Set(get().newTiles);
-        newTiles.add(`${targetLayer}-${row}-${col}`);
-        
-        set({ layers: newLayers, newTiles });
-        
-        // Clear new tile marker after animation
-        setTimeout(() => {
-          const currentNewTiles = new Set(get().newTiles);
-          currentNewTiles.delete(`${targetLayer}-${row}-${col}`);
-          set({ newTiles: currentNewTiles });
-        }, 300);
-      }
-    },
-
-    addLayer: () => {
-      const { layers } = get();
-      const newLayer = Array(4).fill(null).map(() => Array(4).fill(0));
-      const newLayers = [...layers, newLayer];
-      set({ layers: newLayers, totalLayers: newLayers.length });
-    },
-
-    setCurrentLayer: (layer: number) => {
-      const { totalLayers } = get();
-      if (layer >= 0 && layer < totalLayers) {
-        set({ currentLayer: layer });
-      }
-    },
-
-    move: (direction: Direction) => {
-      const { layers, currentLayer, score } = get();
-      const grid = layers[currentLayer];
-      if (!grid) return;
-      
-      let newLayers = layers.map(layer => layer.map(row => [...row]));
-      let newScore = score;
-      const animatingTiles = new Map();
-      let moved = false;
-
-      const slide = (arr: number[]): [number[], boolean] => {
-        const original = [...arr];
-        let result = arr.filter(val => val !== 0);
-        let localMoved = false;
-        
-        for (let i = 0; i < 4; i++) {
-          if (i < result.length) {
-            if (original[i] !== result[i]) {
-              localMoved = true;
-            }
-          } else if (original[i] !== 0) {
-            localMoved = true;
-          }
-        }
-        
-        for (let i = 0; i < result.length - 1; i++) {
-          if (result[i] === result[i + 1] && result[i] !== 0) {
-            result[i] *= 2;
-            newScore += result[i];
-            result[i + 1] = 0;
-            localMoved = true;
-          }
-        }
-        
-        // Remove zeros again after merging
-        result = result.filter(val => val !== 0);
-        
-        // Pad with zeros to maintain array length
-        while (result.length < 4) {
-          result.push(0);
-        }
-        
-        return [result, localMoved];
-      };
-
-      switch (direction) {
-        case 'left':
-          for (let i = 0; i < 4; i++) {
-            const [newRow, rowMoved] = slide(newLayers[currentLayer][i]);
-            newLayers[currentLayer][i] = newRow;
-            if (rowMoved) moved = true;
-          }
-          break;
-        case 'right':
-          for (let i = 0; i < 4; i++) {
-            const [newRow, rowMoved] = slide([...newLayers[currentLayer][i]].reverse());
-            newLayers[currentLayer][i] = newRow.reverse();
-            if (rowMoved) moved = true;
-          }
-          break;
-        case 'up':
-          for (let j = 0; j < 4; j++) {
-            const column = [newLayers[currentLayer][0][j], newLayers[currentLayer][1][j], newLayers[currentLayer][2][j], newLayers[currentLayer][3][j]];
-            const [newColumn, colMoved] = slide(column);
-            for (let i = 0; i < 4; i++) {
-              newLayers[currentLayer][i][j] = newColumn[i];
-            }
-            if (colMoved) moved = true;
-          }
-          break;
-        case 'down':
-          for (let j = 0; j < 4; j++) {
-            const column = [newLayers[currentLayer][0][j], newLayers[currentLayer][1][j], newLayers[currentLayer][2][j], newLayers[currentLayer][3][j]];
-            const [newColumn, colMoved] = slide(column.reverse());
-            const finalColumn = newColumn.reverse();
-            for (let i = 0; i < 4; i++) {
-              newLayers[currentLayer][i][j] = finalColumn[i];
-            }
-            if (colMoved) moved = true;
-          }
-          break;
-        case 'layer-up':
-          if (currentLayer < layers.length - 1) {
-            set({ currentLayer: currentLayer + 1 });
-          }
-          return;
-        case 'layer-down':
-          if (currentLayer > 0) {
-            set({ currentLayer: currentLayer - 1 });
-          }
-          return;
-      }
-
-      if (moved) {
-        set({ layers: newLayers, score: newScore, animatingTiles });
-        setTimeout(() => {
-          get().addRandomTile(currentLayer);
-          get().checkGameStatus();
-        }, 150);
-      }
-    },
-
-    checkGameStatus: () => {
-      const { layers, currentLayer } = get();
-      const grid = layers[currentLayer];
-      
-      if (!grid) return;
-      
-      // (win condition)
-      let hasWon = false;
-      for (let i = 0; i < 4; i++) {
-        for (let j = 0; j < 4; j++) {
-          if (grid[i][j] === 2048) {
-            hasWon = true;
-          }
-        }
-      }
-
-      // game over
-      let canMove = false;
-      for (let i = 0; i < 4; i++) {
-        for (let j = 0; j < 4; j++) {
-          if (grid[i][j] === 0) {
-            canMove = true;
-            break;
-          }
-          if (
-            (i < 3 && grid[i][j] === grid[i + 1][j]) ||
-            (j < 3 && grid[i][j] === grid[i][j + 1])
-          ) {
-            canMove = true;
-            break;
-          }
-        }
-        if (canMove) break;
-      }
-
-      set({ gameWon: hasWon, gameOver: !canMove });
+  for (let axis = 3; axis < shape.length; axis++) {
+    const centred = coords[axis] - (shape[axis] - 1) / 2;
+    if ((axis - 3) % 2 === 0) {
+      x += centred * stepX;
+      stepX *= shape[axis];
+    } else {
+      y += centred * stepY;
+      stepY *= shape[axis];
     }
-  }))
-);
+  }
+  return [x, -y];
+}
 
-// Utility functions
-function gridToPosition(x: number, y: number, layer: number = 0, z: number = 0): [number, number, number] {
-  const spacing = 1.1;
-  const layerSpacing = 1.5;
-  const offset = (4 - 1) * spacing / 2;
-  return [x * spacing - offset, -(y * spacing - offset), z + layer * layerSpacing];
+// Total footprint of all stacks on the table
+function boardExtent(shape: number[]): [number, number] {
+  let width = shape[0] * TILE_SPACING + STACK_GAP;
+  let height = shape[1] * TILE_SPACING + STACK_GAP;
+  for (let axis = 3; axis < shape.length; axis++) {
+    if ((axis - 3) % 2 === 0) {
+      width *= shape[axis];
+    } else {
+      height *= shape[axis];
+    }
+  }
+  return [width - STACK_GAP, height - STACK_GAP];
 }
 
-function getTileColor(value: number): string {
-  const colors: Record<number, string> = {
-    0: "#cdc1b4",
-    2: "#eee4da",
-    4: "#ede0c8", 
-    8: "#f2b179",
-    16: "#f59563",
-    32: "#f67c5f",
-    64: "#f65e3b",
-    128: "#edcf72",
-    256: "#edcc61",
-    512: "#edc850",
-    1024: "#edc53f",
-    2048: "#edc22e",
-    4096: "#3c3a32",
-  };
-  return colors[value] || "#3c3a32";
+function gridToPosition(shape: number[], coords: Coords, z: number = 0, layerSpacing: number = DEFAULT_LAYER_SPACING): [number, number, number] {
+  const [x, y, layer = 0] = coords;
+  const offsetX = (shape[0] - 1) * TILE_SPACING / 2;
+  const offsetY = (shape[1] - 1) * TILE_SPACING / 2;
+  const [stackX, stackY] = stackOffset(shape, coords);
+  return [x * TILE_SPACING - offsetX + stackX, -(y * TILE_SPACING - offsetY) + stackY, z + layer * layerSpacing];
 }
 
 // Animated Tile Component
+const SLIDE_SPEED = 25;
+const POP_DURATION = 0.2;
+
 function AnimatedTile({ 
-  row, 
-  col, 
-  layer,
+  shape,
+  coords,
   value, 
-  isNew 
+  isNew,
+  from,
+  merged = false,
+  ghost = false,
 }: { 
-  row: number; 
-  col: number; 
-  layer: number;
+  shape: number[];
+  coords: Coords;
   value: number; 
   isNew: boolean;
+  // Cell the tile slides in from when it first appears
+  from?: Coords;
+  // Plays the merge pop
+  merged?: boolean;
+  // Tile that was absorbed by a merge: it slides into its partner and shrinks away
+  ghost?: boolean;
 }) {
-  const meshRef = useRef<THREE.Mesh>(null);
+  const groupRef = useRef<THREE.Group>(null);
+  const meshRef = useRef<THREE.Group>(null);
   const textRef = useRef<THREE.Mesh>(null);
-  const [scale, setScale] = useState(isNew ? 0 : 1);
-  const [position] = useState(() => gridToPosition(col, row, layer, 0.1));
-  
-  // Animation for new tiles
-  useFrame((state, delta) => {
-    if (isNew && scale < 1) {
-      const newScale = Math.min(1, scale + delta * 8);
-      setScale(newScale);
-      if (meshRef.current) {
-        meshRef.current.scale.setScalar(newScale);
-      }
-    }
-  });
-
-  // Hover effect
+  const layerSpacing = useCameraStore(state => state.layerSpacing);
+  const theme = useThemeStore(state => state.theme);
+  const [initialPosition] = useState(() => gridToPosition(shape, from ?? coords, 0.1, layerSpacing));
+  const target = gridToPosition(shape, coords, ghost ? 0.09 : 0.1, layerSpacing);
+  const [initialScale] = useState(isNew ? 0 : 1);
+  const scaleRef = useRef(initialScale);
+  const popRef = useRef(0);
   const [hovered, setHovered] = useState(false);
-  useFrame(() => {
-    if (meshRef.current) {
-      const targetScale = hovered ? 1.05 : (isNew ? scale : 1);
-      meshRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1);
-    }
+
+  useEffect(() => {
+    if (merged) popRef.current = POP_DURATION;
+  }, [merged, value]);
+
+  useFrame((_, delta) => {
+    if (!groupRef.current || !meshRef.current) return;
+
+    // Slide towards the tile's current cell
+    const [x, y, z] = target;
+    groupRef.current.position.lerp(new THREE.Vector3(x, y, z), 1 - Math.exp(-delta * SLIDE_SPEED));
+
+    // Grow new tiles in, shrink absorbed ones away, and bump merged ones
+    scaleRef.current = ghost
+      ? Math.max(0, scaleRef.current - delta * 6)
+      : Math.min(1, scaleRef.current + delta * 8);
+    popRef.current = Math.max(0, popRef.current - delta);
+    const pop = 1 + Math.sin((popRef.current / POP_DURATION) * Math.PI) * 0.2;
+    const hover = hovered ? 1.05 : 1;
+    meshRef.current.scale.setScalar(scaleRef.current * pop * hover);
   });
 
-  const color = getTileColor(value);
-  const textColor = value <= 4 ? "#776e65" : "#f9f6f2";
+  const color = tileColor(theme, value);
+  const textColor = tileTextColor(theme, value);
+  const special = specialTile(value);
 
   return (
-    <group position={position}>
-      <RoundedBox
-        ref={meshRef}
-        args={[0.9, 0.9, 0.2]}
-        radius={0.05}
-        smoothness={4}
-        onPointerEnter={() => setHovered(true)}
-        onPointerLeave={() => setHovered(false)}
-      >
-        <meshPhysicalMaterial 
-          color={color}
-          roughness={0.2}
-          metalness={0.1}
-          clearcoat={0.3}
-          clearcoatRoughness={0.1}
-        />
-      </RoundedBox>
-      
-      <Text
-        ref={textRef}
-        position={[0, 0, 0.11]}
-        fontSize={value >= 1000 ? 0.25 : value >= 100 ? 0.3 : 0.35}
-        color={textColor}
-        anchorX="center"
-        anchorY="middle"
-      >
-        {value}
-      </Text>
+    <group ref={groupRef} position={initialPosition}>
+      <group ref={meshRef} scale={initialScale}>
+        <RoundedBox
+          args={[0.9, 0.9, 0.2]}
+          radius={0.05}
+          smoothness={4}
+          onPointerEnter={() => setHovered(true)}
+          onPointerLeave={() => setHovered(false)}
+        >
+          <meshPhysicalMaterial 
+            color={color}
+            {...theme.tileMaterial}
+            {...(special && SPECIAL_TILES[special].material)}
+          />
+        </RoundedBox>
+        
+        <Text
+          ref={textRef}
+          position={[0, 0, 0.11]}
+          fontSize={getTileFontSize(value)}
+          color={textColor}
+          anchorX="center"
+          anchorY="middle"
+        >
+          {getTileLabel(value)}
+        </Text>
+      </group>
     </group>
   );
 }
 
-// Game Board Component  
-function GameBoard() {
-  const { layers, currentLayer, newTiles } = useGameStore();
+// Renders any board, so the live game and replays look the same
+function GameBoard({
+  board,
+  currentLayer,
+  newTiles,
+  animatingTiles,
+  stuckLayers,
+}: {
+  board: Board;
+  currentLayer: number;
+  newTiles: Set<number>;
+  animatingTiles: Map<number, TileMove>;
+  stuckLayers: boolean[];
+}) {
+  const { shape } = board;
+  const moves = [...animatingTiles.values()];
+  const mergedIds = new Set(moves.flatMap(tileMove => tileMove.mergedInto ?? []));
+  const [width, height] = shape;
+  const boardWidth = width * TILE_SPACING;
+  const boardHeight = height * TILE_SPACING;
+  const layerIndices = Array.from({ length: layerCount(board) }, (_, layer) => layer);
+  const cellPositions = allCoords([width, height]);
+  // One 3D stack of layers per combination of hyper coordinates
+  const stacks = allCoords(shape.slice(3));
+  const layerSpacing = useCameraStore(state => state.layerSpacing);
+  const theme = useThemeStore(state => state.theme);
   
   return (
     <group rotation={[-Math.PI / 2, 0, 0]}>
-      {/* Render all layers */}
-      {layers.map((grid, layerIndex) => (
-        <group key={`layer-${layerIndex}`}>
-          {/* Board Base for each layer */}
-          <RoundedBox 
-            args={[5, 5, 0.3]} 
-            radius={0.1} 
-            position={[0, 0, layerIndex * 1.5 - 0.2]}
-          >
-            <meshPhysicalMaterial 
-              color={layerIndex === currentLayer ? "#bbada0" : "#d6ccc2"} 
-              roughness={0.3}
-              metalness={0.1}
-              transparent={layerIndex !== currentLayer}
-              opacity={layerIndex === currentLayer ? 1 : 0.5}
-            />
-          </RoundedBox>
+      {stacks.map(hyper => {
+        const [stackX, stackY] = stackOffset(shape, [0, 0, 0, ...hyper]);
+        return (
+          <group key={`stack-${hyper.join('-')}`}>
+            {/* Hyper-coordinate label for each stack */}
+            {hyper.length > 0 && (
+              <Text
+                position={[stackX, stackY + boardHeight / 2 + 0.6, 0]}
+                fontSize={0.3}
+                color={theme.text}
+                anchorX="center"
+                anchorY="middle"
+              >
+                {hyper.map((coord, i) => `${axisName(i + 3)}=${coord}`).join(' ')}
+              </Text>
+            )}
 
-          {/* Grid Lines for each layer */}
-          {Array.from({ length: 5 }).map((_, i) => (
-            <group key={`grid-${layerIndex}-${i}`}>
-              <mesh position={[i * 1.1 - 2.2, 0, layerIndex * 1.5 - 0.05]} rotation={[0, 0, Math.PI / 2]}>
-                <cylinderGeometry args={[0.005, 0.005, 4.4]} />
-                <meshBasicMaterial 
-                  color="#a39489" 
-                  transparent 
-                  opacity={layerIndex === currentLayer ? 0.5 : 0.2} 
-                />
-              </mesh>
-              <mesh position={[0, i * 1.1 - 2.2, layerIndex * 1.5 - 0.05]}>
-                <cylinderGeometry args={[0.005, 0.005, 4.4]} />
-                <meshBasicMaterial 
-                  color="#a39489" 
-                  transparent 
-                  opacity={layerIndex === currentLayer ? 0.5 : 0.2} 
-                />
-              </mesh>
-            </group>
-          ))}
-
-          {/* Empty Cell Indicators for each layer */}
-          {grid.map((row: number[], rowIndex: number) =>
-            row.map((cell: number, colIndex: number) => {
-              if (cell === 0) {
-                return (
-                  <RoundedBox
-                    key={`empty-${layerIndex}-${rowIndex}-${colIndex}`}
-                    args={[0.9, 0.9, 0.05]}
-                    radius={0.05}
-                    position={gridToPosition(colIndex, rowIndex, layerIndex, 0.025)}
+            {/* Render all layers */}
+            {layerIndices.map(layerIndex => (
+              <group key={`layer-${layerIndex}`}>
+                {/* Board Base for each layer */}
+                <RoundedBox 
+                  args={[boardWidth + 0.6, boardHeight + 0.6, 0.3]} 
+                  radius={0.1} 
+                  position={[stackX, stackY, layerIndex * layerSpacing - 0.2]}
+                >
+                  <meshPhysicalMaterial 
+                    color={layerIndex === currentLayer ? theme.layerBase : theme.otherLayerBase} 
+                    roughness={0.3}
+                    metalness={0.1}
+                    transparent={layerIndex !== currentLayer}
+                    opacity={layerIndex === currentLayer ? 1 : 0.5}
+                  />
+                </RoundedBox>
+
+                {/* Stuck Indicator: a rim around layers where nothing can move */}
+                {stuckLayers[layerIndex] && (
+                  <>
+                    <RoundedBox
+                      args={[boardWidth + 0.8, boardHeight + 0.8, 0.2]}
+                      radius={0.1}
+                      position={[stackX, stackY, layerIndex * layerSpacing - 0.3]}
+                    >
+                      <meshBasicMaterial color={theme.stuck} transparent opacity={0.6} />
+                    </RoundedBox>
+                    <Text
+                      position={[stackX - boardWidth / 2 - 0.7, stackY, layerIndex * layerSpacing]}
+                      fontSize={0.2}
+                      color={theme.stuck}
+                      anchorX="center"
+                      anchorY="middle"
+                      fontWeight="bold"
+                    >
+                      Stuck
+                    </Text>
+                  </>
+                )}
+
+                {/* Grid Lines for each layer */}
+                {Array.from({ length: height + 1 }).map((_, i) => (
+                  <mesh
+                    key={`grid-row-${i}`}
+                    position={[stackX, stackY + i * TILE_SPACING - boardHeight / 2, layerIndex * layerSpacing - 0.05]}
+                    rotation={[0, 0, Math.PI / 2]}
                   >
-                    <meshPhysicalMaterial 
-                      color="#cdc1b4" 
+                    <cylinderGeometry args={[0.005, 0.005, boardWidth]} />
+                    <meshBasicMaterial 
+                      color={theme.gridLines}
                       transparent 
-                      opacity={layerIndex === currentLayer ? 0.3 : 0.15}
-                      roughness={0.8}
+                      opacity={layerIndex === currentLayer ? 0.5 : 0.2} 
                     />
-                  </RoundedBox>
-                );
-              }
-              return null;
-            })
-          )}
+                  </mesh>
+                ))}
+                {Array.from({ length: width + 1 }).map((_, i) => (
+                  <mesh
+                    key={`grid-col-${i}`}
+                    position={[stackX + i * TILE_SPACING - boardWidth / 2, stackY, layerIndex * layerSpacing - 0.05]}
+                  >
+                    <cylinderGeometry args={[0.005, 0.005, boardHeight]} />
+                    <meshBasicMaterial 
+                      color={theme.gridLines}
+                      transparent 
+                      opacity={layerIndex === currentLayer ? 0.5 : 0.2} 
+                    />
+                  </mesh>
+                ))}
 
-          {/* Game Tiles for each layer */}
-          {grid.map((row: number[], rowIndex: number) =>
-            row.map((value: number, colIndex: number) => {
-              if (value !== 0) {
-                const isNew = newTiles.has(`${layerIndex}-${rowIndex}-${colIndex}`);
-                return (
-                  <AnimatedTile
-                    key={`${layerIndex}-${rowIndex}-${colIndex}-${value}`}
-                    row={rowIndex}
-                    col={colIndex}
-                    layer={layerIndex}
-                    value={value}
-                    isNew={isNew}
-                  />
-                );
-              }
-              return null;
-            })
-          )}
-        </group>
+                {/* Empty Cell Indicators for each layer */}
+                {cellPositions.map(([col, row]) => {
+                  const coords = [col, row, layerIndex, ...hyper];
+                  const key = coords.join('-');
+
+                  if (getCell(board, coords) === 0) {
+                    return (
+                      <RoundedBox
+                        key={`empty-${key}`}
+                        args={[0.9, 0.9, 0.05]}
+                        radius={0.05}
+                        position={gridToPosition(shape, coords, 0.025, layerSpacing)}
+                      >
+                        <meshPhysicalMaterial 
+                          color={tileColor(theme, 0)}
+                          transparent 
+                          opacity={layerIndex === currentLayer ? 0.3 : 0.15}
+                          roughness={0.8}
+                        />
+                      </RoundedBox>
+                    );
+                  }
+                  return null;
+                })}
+              </group>
+            ))}
+          </group>
+        );
+      })}
+
+      {/* Game Tiles, keyed by identity so they slide between cells, layers and stacks */}
+      {board.ids.map((id, index) => {
+        if (id === 0) return null;
+        return (
+          <AnimatedTile
+            key={id}
+            shape={shape}
+            coords={cellCoords(shape, index)}
+            value={board.cells[index]}
+            isNew={newTiles.has(id)}
+            from={animatingTiles.get(id)?.from}
+            merged={mergedIds.has(id)}
+          />
+        );
+      })}
+
+      {/* Tiles absorbed by the last merges */}
+      {moves.filter(tileMove => tileMove.mergedInto !== undefined).map(tileMove => (
+        <AnimatedTile
+          key={`ghost-${tileMove.id}`}
+          shape={shape}
+          coords={tileMove.to}
+          value={tileMove.value}
+          isNew={false}
+          from={tileMove.from}
+          ghost
+        />
       ))}
     </group>
   );
 }
 
+// Clickable panel used for every button in the game UI
+function MenuButton({
+  position,
+  label,
+  onClick,
+  width = 2,
+  disabled = false,
+}: {
+  position: [number, number, number];
+  label: string;
+  onClick: () => void;
+  width?: number;
+  disabled?: boolean;
+}) {
+  const handleClick = disabled ? undefined : onClick;
+  const theme = useThemeStore(state => state.theme);
+
+  return (
+    <group position={position}>
+      <RoundedBox 
+        args={[width, 0.6, 0.1]} 
+        radius={0.05}
+        onClick={handleClick}
+        onPointerEnter={(e) => {
+          if (disabled) return;
+          const mesh = e.object as THREE.Mesh;
+          if (mesh.material && 'color' in mesh.material) {
+            (mesh.material as THREE.MeshPhysicalMaterial).color.set(theme.buttonHover);
+          }
+        }}
+        onPointerLeave={(e) => {
+          const mesh = e.object as THREE.Mesh;
+          if (mesh.material && 'color' in mesh.material) {
+            (mesh.material as THREE.MeshPhysicalMaterial).color.set(theme.button);
+          }
+        }}
+      >
+        <meshPhysicalMaterial color={theme.button} />
+      </RoundedBox>
+      <Text
+        position={[0, 0, 0.06]}
+        fontSize={0.15}
+        color={theme.buttonText}
+        fillOpacity={disabled ? 0.5 : 1}
+        anchorX="center"
+        anchorY="middle"
+        onClick={handleClick}
+      >
+        {label}
+      </Text>
+    </group>
+  );
+}
+
+// Undo allowances the limited undos button cycles through
+const UNDO_LIMITS: (number | null)[] = [null, 3, 1, 0];
+
+const VARIANT_LABELS: Record<RuleVariant, string> = {
+  classic: "Classic",
+  blockers: "Blockers",
+  wildcards: "Wildcards",
+  multipliers: "Multipliers",
+  bombs: "Bombs",
+  mayhem: "Mayhem",
+};
+
+function layerCostLabel(cost: LayerCost): string {
+  switch (cost.kind) {
+    case 'free':
+      return "Free";
+    case 'score':
+      return `${cost.amount} pts`;
+    case 'tile':
+      return `${cost.value} tile`;
+  }
+}
+
 // Game UI Component
 function GameUI() {
-  const { score, currentLayer, totalLayers, gameWon, gameOver, reset, addLayer, setCurrentLayer } = useGameStore();
+  const game = useGameStore();
+  const theme = useThemeStore(state => state.theme);
+  const {
+    config,
+    board,
+    activeAxes,
+    score,
+    currentLayer,
+    totalLayers,
+    layerMode,
+    gameWon,
+    gameOver,
+    reset,
+    addLayer,
+    setLayerMode,
+    setConfig,
+    setLayerCost,
+    setVariant,
+    removeLayer,
+    moveLayer,
+    cycleActiveAxes,
+    history,
+    undoLimit,
+    undosRemaining,
+    undo,
+    redo,
+    setUndoLimit,
+    lockPolicy,
+    setLockPolicy,
+    target,
+    setTarget,
+    keepPlaying,
+    keepGoing,
+    challenge,
+  } = game;
+  // Puzzles bring their own board and rules, and races the host's
+  const racing = useRacing();
+  const inPuzzle = challenge?.kind === 'puzzle';
+  const fixedRules = inPuzzle || racing;
+  const status = challengeStatus(game);
+  const presetNames = Object.keys(PRESET_CONFIGS);
+  // Presets are matched on their dimensions, so the layer cost doesn't hide the name
+  const presetIndex = presetNames.findIndex(name =>
+    boardShape(PRESET_CONFIGS[name]).join() === boardShape(config).join() &&
+    PRESET_CONFIGS[name].maxLayers === config.maxLayers
+  );
+  const costIndex = LAYER_COSTS.findIndex(cost => layerCostLabel(cost) === layerCostLabel(config.layerCost));
+  const targets = [...TARGET_VALUES, null];
+  const variants = Object.keys(RULE_VARIANTS) as RuleVariant[];
+  const reached = milestones(game);
+  // The win banner stays up until the player chooses to keep going
+  const showWin = gameWon && !keepPlaying;
 
   return (
-    <group position={[0, 0, 3]}>
+    <group position={[0, 0, Math.max(3, boardExtent(board.shape)[1] / 2 + 0.8)]}>
       {/* Score Display */}
       <RoundedBox args={[2, 0.6, 0.1]} radius={0.05} position={[0, 0, 0]}>
-        <meshPhysicalMaterial color="#8f7a66" />
+        <meshPhysicalMaterial color={theme.button} />
       </RoundedBox>
       <Text
         position={[0, 0, 0.06]}
         fontSize={0.2}
-        color="#f9f6f2"
+        color={theme.buttonText}
         anchorX="center"
         anchorY="middle"
         fontWeight="bold"
@@ -469,67 +536,98 @@ function GameUI() {
         Score: {score}
       </Text>
 
+      {/* Challenge Timer / Moves Left */}
+      {status && (
+        <Text
+          position={[0, 0.5, 0.06]}
+          fontSize={0.18}
+          color={theme.text}
+          anchorX="center"
+          anchorY="middle"
+          fontWeight="bold"
+        >
+          {status}
+        </Text>
+      )}
+
+      {/* Endless Mode Milestones */}
+      {target === null && reached.length > 0 && (
+        <Text
+          position={[0, -0.45, 0.06]}
+          fontSize={0.15}
+          color={theme.text}
+          anchorX="center"
+          anchorY="middle"
+        >
+          Milestone {reached[reached.length - 1]} ({reached.length} reached)
+        </Text>
+      )}
+
       {/* Game Status */}
-      {(gameWon || gameOver) && (
+      {showWin && (
+        <group position={[0, -1, 0.1]}>
+          <RoundedBox args={[3, 1.2, 0.1]} radius={0.05}>
+            <meshPhysicalMaterial color={theme.win} />
+          </RoundedBox>
+          <Text
+            position={[0, 0.2, 0.06]}
+            fontSize={0.25}
+            color={theme.statusText}
+            anchorX="center"
+            anchorY="middle"
+            fontWeight="bold"
+          >
+            You Win!
+          </Text>
+          <MenuButton position={[0, -0.3, 0.06]} width={1.5} label="Keep Going" onClick={keepGoing} />
+        </group>
+      )}
+      {!showWin && gameOver && (
         <group position={[0, -1, 0.1]}>
           <RoundedBox args={[3, 0.8, 0.1]} radius={0.05}>
-            <meshPhysicalMaterial color={gameWon ? "#4CAF50" : "#f44336"} />
+            <meshPhysicalMaterial color={theme.lose} />
           </RoundedBox>
           <Text
             position={[0, 0, 0.06]}
             fontSize={0.25}
-            color="#ffffff"
+            color={theme.statusText}
             anchorX="center"
             anchorY="middle"
             fontWeight="bold"
           >
-            {gameWon ? "You Win!" : "Game Over"}
+            Game Over
           </Text>
         </group>
       )}
 
       {/* Reset Button */}
-      <group position={[3, 0, 0]}>
-        <RoundedBox 
-          args={[1.5, 0.6, 0.1]} 
-          radius={0.05}
-          onClick={reset}
-          onPointerEnter={(e) => {
-            const mesh = e.object as THREE.Mesh;
-            if (mesh.material && 'color' in mesh.material) {
-              (mesh.material as THREE.MeshPhysicalMaterial).color.setHex(0x9f8a76);
-            }
-          }}
-          onPointerLeave={(e) => {
-            const mesh = e.object as THREE.Mesh;
-            if (mesh.material && 'color' in mesh.material) {
-              (mesh.material as THREE.MeshPhysicalMaterial).color.setHex(0x8f7a66);
-            }
-          }}
-        >
-          <meshPhysicalMaterial color="#8f7a66" />
-        </RoundedBox>
-        <Text
-          position={[0, 0, 0.06]}
-          fontSize={0.15}
-          color="#f9f6f2"
-          anchorX="center"
-          anchorY="middle"
-          onClick={reset}
-        >
-          New Game
-        </Text>
-      </group>
+      <MenuButton position={[3, 0, 0]} width={1.5} label="New Game" onClick={() => reset()} disabled={racing} />
+
+      {/* Undo / Redo Buttons */}
+      <MenuButton
+        position={[2.6, -0.75, 0]}
+        width={0.7}
+        label={undosRemaining === null ? "Undo" : `Undo ${undosRemaining}`}
+        onClick={undo}
+        disabled={history.past.length === 0 || undosRemaining === 0}
+      />
+      <MenuButton
+        position={[3.4, -0.75, 0]}
+        width={0.7}
+        label="Redo"
+        onClick={redo}
+        disabled={history.future.length === 0}
+      />
 
       {/* Layer Info */}
       <group position={[-3, 0, 0]}>
         <RoundedBox args={[2, 0.6, 0.1]} radius={0.05}>
-          <meshPhysicalMaterial color="#8f7a66" />
+          <meshPhysicalMaterial color={theme.button} />
         </RoundedBox>
         <Text
           position={[0, 0, 0.06]}
           fontSize={0.15}
-          color="#f9f6f2"
+          color={theme.buttonText}
           anchorX="center"
           anchorY="middle"
         >
@@ -538,144 +636,532 @@ function GameUI() {
       </group>
 
       {/* Add Layer Button */}
-      <group position={[0, -1.5, 0]}>
-        <RoundedBox 
-          args={[2, 0.6, 0.1]} 
-          radius={0.05}
-          onClick={() => {
-            addLayer();
-            // Add initial tiles to new layer
-            setTimeout(() => {
-              const { addRandomTile, totalLayers } = useGameStore.getState();
-              addRandomTile(totalLayers - 1);
-              addRandomTile(totalLayers - 1);
-            }, 100);
-          }}
-          onPointerEnter={(e) => {
-            const mesh = e.object as THREE.Mesh;
-            if (mesh.material && 'color' in mesh.material) {
-              (mesh.material as THREE.MeshPhysicalMaterial).color.setHex(0x9f8a76);
-            }
-          }}
-          onPointerLeave={(e) => {
-            const mesh = e.object as THREE.Mesh;
-            if (mesh.material && 'color' in mesh.material) {
-              (mesh.material as THREE.MeshPhysicalMaterial).color.setHex(0x8f7a66);
-            }
-          }}
-        >
-          <meshPhysicalMaterial color="#8f7a66" />
-        </RoundedBox>
-        <Text
-          position={[0, 0, 0.06]}
-          fontSize={0.15}
-          color="#f9f6f2"
-          anchorX="center"
-          anchorY="middle"
-        >
-          Add Layer
-        </Text>
-      </group>
+      <MenuButton
+        position={[0, -1.5, 0]}
+        label={config.layerCost.kind === 'free' ? "Add Layer" : `Add Layer (${layerCostLabel(config.layerCost)})`}
+        onClick={addLayer}
+        disabled={!canAddLayer(game)}
+      />
+
+      {/* Layer Management */}
+      <MenuButton
+        position={[-3.5, -3, 0]}
+        width={1}
+        label="Layer Down"
+        onClick={() => moveLayer(currentLayer, currentLayer - 1)}
+        disabled={currentLayer === 0}
+      />
+      <MenuButton
+        position={[-2.5, -3, 0]}
+        width={1}
+        label="Layer Up"
+        onClick={() => moveLayer(currentLayer, currentLayer + 1)}
+        disabled={currentLayer === totalLayers - 1}
+      />
+      <MenuButton
+        position={[0, -3, 0]}
+        label="Remove Layer"
+        onClick={() => removeLayer(currentLayer)}
+        disabled={!canRemoveLayer(game, currentLayer)}
+      />
+      <MenuButton
+        position={[3, -3, 0]}
+        label={`Layer Cost: ${layerCostLabel(config.layerCost)}`}
+        onClick={() => setLayerCost(LAYER_COSTS[(costIndex + 1) % LAYER_COSTS.length])}
+        disabled={fixedRules}
+      />
+
+      {/* Rule Variant */}
+      <MenuButton
+        position={[0, -3.75, 0]}
+        label={`Tiles: ${VARIANT_LABELS[config.variant]}`}
+        onClick={() => setVariant(variants[(variants.indexOf(config.variant) + 1) % variants.length])}
+        disabled={fixedRules}
+      />
+
+      {/* Layer Mode Toggle */}
+      <MenuButton
+        position={[3, -1.5, 0]}
+        label={layerMode === 'stacked' ? "Mode: Stack" : "Mode: Layers"}
+        onClick={() => setLayerMode(layerMode === 'stacked' ? 'independent' : 'stacked')}
+        disabled={fixedRules}
+      />
+
+      {/* Board Size Preset */}
+      <MenuButton
+        position={[-3, -1.5, 0]}
+        label={`Board: ${presetNames[presetIndex] ?? `${config.width}×${config.height}`}`}
+        onClick={() => setConfig({
+          ...PRESET_CONFIGS[presetNames[(presetIndex + 1) % presetNames.length]],
+          layerCost: config.layerCost,
+          variant: config.variant,
+        })}
+        disabled={fixedRules}
+      />
+
+      {/* Limited Undos Mode */}
+      <MenuButton
+        position={[0, -2.25, 0]}
+        label={`Undos: ${undoLimit === null ? "∞" : undoLimit}`}
+        onClick={() => {
+          const index = UNDO_LIMITS.indexOf(undoLimit);
+          setUndoLimit(UNDO_LIMITS[(index + 1) % UNDO_LIMITS.length]);
+        }}
+        disabled={challenge !== null || racing}
+      />
+
+      {/* Loss Policy */}
+      <MenuButton
+        position={[3, -2.25, 0]}
+        label={lockPolicy === 'any' ? "Lose: Any Layer" : "Lose: All Layers"}
+        onClick={() => setLockPolicy(lockPolicy === 'any' ? 'all' : 'any')}
+        disabled={racing}
+      />
+
+      {/* Target Tile */}
+      <MenuButton
+        position={[-3, -2.25, 0]}
+        label={`Target: ${target === null ? "Endless" : target}`}
+        onClick={() => setTarget(targets[(targets.indexOf(target) + 1) % targets.length])}
+        disabled={fixedRules}
+      />
+
+      {/* Active Axis Pair */}
+      <MenuButton
+        position={[-3, -0.75, 0]}
+        label={`Axes: ${axisName(activeAxes[0])}/${axisName(activeAxes[1])}`}
+        onClick={() => cycleActiveAxes(1)}
+      />
+    </group>
+  );
+}
+
+// Opponent Mirror Component: a small live copy of the opponent's board beside the player's own
+const MIRROR_SCALE = 0.4;
+const NO_NEW_TILES = new Set<number>();
+const NO_TILE_MOVES = new Map<number, TileMove>();
+
+function OpponentBoard() {
+  const opponent = useVersusStore(state => state.opponent);
+  const shape = useGameStore(state => state.board.shape);
+  const theme = useThemeStore(state => state.theme);
+  if (!opponent) return null;
+
+  const [width] = boardExtent(shape);
+  const [opponentWidth, opponentHeight] = boardExtent(opponent.board.shape);
+  return (
+    <group position={[-(width / 2 + (opponentWidth / 2) * MIRROR_SCALE + 1.5), 0, 0]} scale={MIRROR_SCALE}>
+      <GameBoard
+        board={opponent.board}
+        currentLayer={opponent.currentLayer}
+        newTiles={NO_NEW_TILES}
+        animatingTiles={NO_TILE_MOVES}
+        stuckLayers={[]}
+      />
+      <Text
+        position={[0, 0.5, opponentHeight / 2 + 1.2]}
+        fontSize={0.6}
+        color={theme.text}
+        anchorX="center"
+        anchorY="middle"
+      >
+        Opponent: {opponent.score}{opponent.gameOver ? " (stuck)" : ""}
+      </Text>
+    </group>
+  );
+}
+
+// Replay Board Component
+function ReplayBoard() {
+  const { frames, index } = useReplayStore();
+  if (!frames) return null;
+
+  const { state, spawned, tileMoves } = frames[index];
+  return (
+    <GameBoard
+      board={state.board}
+      currentLayer={state.currentLayer}
+      newTiles={new Set(spawned.map(tile => tile.id))}
+      animatingTiles={new Map(tileMoves.map(tileMove => [tileMove.id, tileMove]))}
+      stuckLayers={lockedLayers(state)}
+    />
+  );
+}
+
+// Steps the turn pipeline from the render loop
+function TurnDriver() {
+  const advanceTurn = useGameStore(state => state.advanceTurn);
+  useFrame((_, delta) => advanceTurn(delta));
+  return null;
+}
+
+// Lets the solver play from the render loop
+function AutoplayDriver() {
+  const advance = useSolverStore(state => state.advance);
+  useFrame((_, delta) => advance(delta));
+  return null;
+}
+
+// Hint Arrow Component: points along the suggested direction beside the board
+function HintArrow() {
+  const direction = useCurrentHint();
+  const { board, currentLayer } = useGameStore(useShallow(state => ({ board: state.board, currentLayer: state.currentLayer })));
+  const layerSpacing = useCameraStore(state => state.layerSpacing);
+  const hint = useThemeStore(state => state.theme.hint);
+  if (!direction) return null;
+
+  const { axis, step } = directionAxis(direction);
+  // Hyper axes have no direction in space; the hint text covers them
+  if (axis > LAYER_AXIS) return null;
+
+  const [width, height] = boardExtent(board.shape);
+  const layerZ = currentLayer * layerSpacing + 0.3;
+  const placements: { position: [number, number, number]; rotation: [number, number, number] }[] = [
+    { position: [step * (width / 2 + 0.8), 0, layerZ], rotation: [0, 0, -step * Math.PI / 2] },
+    // Rows count downwards on screen
+    { position: [0, -step * (height / 2 + 0.8), layerZ], rotation: [0, 0, step > 0 ? Math.PI : 0] },
+    { position: [width / 2 + 0.8, 0, layerZ + step * 0.8], rotation: [step * Math.PI / 2, 0, 0] },
+  ];
+  const { position, rotation } = placements[axis];
+
+  return (
+    <group rotation={[-Math.PI / 2, 0, 0]}>
+      <mesh position={position} rotation={rotation}>
+        <coneGeometry args={[0.3, 0.6, 16]} />
+        <meshStandardMaterial color={hint} emissive={hint} emissiveIntensity={0.4} />
+      </mesh>
     </group>
   );
 }
 
+// Steps replay playback from the render loop
+function ReplayDriver() {
+  const advance = useReplayStore(state => state.advance);
+  useFrame((_, delta) => advance(delta));
+  return null;
+}
+
+// First key bound to each action, for the controls summary
+function boundKeys(keymap: Keymap, actions: KeyAction[]): string {
+  return actions.map(action => (keymap[action][0] ? formatCombo(keymap[action][0]) : "—")).join(" / ");
+}
+
+// How quickly the camera eases towards a new view
+const CAMERA_EASE = 6;
+
+type OrbitLike = THREE.EventDispatcher<{ start: object }> & { target: THREE.Vector3; update: () => void };
+
+// Eases the camera to the view last asked for, and follows the current layer when
+// auto-focus is on. Grabbing the controls stops any transition in progress.
+function CameraRig() {
+  const controls = useThree(state => state.controls) as OrbitLike | null;
+  const goal = useRef<CameraPose | null>(null);
+  const seen = useRef({ request: -1, layer: 0, layerSpacing: DEFAULT_LAYER_SPACING });
+
+  useEffect(() => {
+    if (!controls) return;
+    const stop = () => {
+      goal.current = null;
+    };
+    controls.addEventListener('start', stop);
+    return () => controls.removeEventListener('start', stop);
+  }, [controls]);
+
+  useFrame(({ camera }, delta) => {
+    if (!controls) return;
+    const { view, request, autoFocus, layerSpacing } = useCameraStore.getState();
+    const { board, currentLayer } = useGameStore.getState();
+    const last = seen.current;
+    seen.current = { request, layer: currentLayer, layerSpacing };
+
+    if (request !== last.request) {
+      goal.current = cameraPose(view, {
+        extent: boardExtent(board.shape),
+        layers: layerCount(board),
+        currentLayer,
+        layerSpacing,
+        focus: autoFocus,
+      });
+    } else if (autoFocus && (currentLayer !== last.layer || layerSpacing !== last.layerSpacing)) {
+      // Slides the whole view up or down, keeping the angle the player left it at
+      const from = goal.current ?? { position: camera.position.toArray(), target: controls.target.toArray() };
+      const rise = layerHeight(currentLayer, layerSpacing) - from.target[1];
+      goal.current = {
+        position: [from.position[0], from.position[1] + rise, from.position[2]],
+        target: [from.target[0], from.target[1] + rise, from.target[2]],
+      };
+    }
+
+    if (!goal.current) return;
+    const position = new THREE.Vector3(...goal.current.position);
+    const target = new THREE.Vector3(...goal.current.target);
+    const t = 1 - Math.exp(-CAMERA_EASE * delta);
+    camera.position.lerp(position, t);
+    controls.target.lerp(target, t);
+    controls.update();
+    if (camera.position.distanceTo(position) < 0.01 && controls.target.distanceTo(target) < 0.01) {
+      goal.current = null;
+    }
+  });
+  return null;
+}
+
+// Polls connected gamepads once per frame
+function GamepadDriver() {
+  const [readGamepads] = useState(createGamepadReader);
+  useFrame(() => pollGamepads(readGamepads));
+  return null;
+}
+
+// Whether the browser can draw the 3D view; checked once, and assumed while rendering on the server
+let webglSupport: boolean | null = null;
+
+function webglAvailable(): boolean {
+  if (webglSupport === null) {
+    try {
+      const canvas = document.createElement('canvas');
+      webglSupport = Boolean(canvas.getContext('webgl2') ?? canvas.getContext('webgl'));
+    } catch {
+      webglSupport = false;
+    }
+  }
+  return webglSupport;
+}
+
+function useWebGL(): boolean {
+  return useSyncExternalStore(() => () => {}, webglAvailable, () => true);
+}
+
 // Main Component
 export default function Layer3D() {
-  const { move, reset } = useGameStore();
+  const { board, currentLayer, newTiles, animatingTiles, stuckLayers, reset, loadGame } = useGameStore();
+  const replaying = useReplayStore(state => state.frames !== null);
+  const keymap = useKeymapStore(state => state.keymap);
+  const [keymapOpen, setKeymapOpen] = useState(false);
+  const challenge = useGameStore(state => state.challenge);
+  const [challengesOpen, setChallengesOpen] = useState(false);
+  const racing = useRacing();
+  const { settings: sound, update: updateSound } = useSoundStore();
+  const theme = useThemeStore(state => state.theme);
+  // The player's choice of view; until they pick one, the DOM view stands in when WebGL is missing
+  const webgl = useWebGL();
+  const [viewChoice, setViewChoice] = useState<'3d' | 'dom' | null>(null);
+  const domView = (viewChoice ?? (webgl ? '3d' : 'dom')) === 'dom';
+
+  // Initialize game, resuming the autosaved one if there is one, and keep saving it.
+  // Everything stored is read here rather than when the stores are made, as there is no
+  // localStorage while rendering on the server.
+  useEffect(() => {
+    useStatsStore.getState().load();
+    useKeymapStore.getState().load();
+    useChallengeStore.getState().load();
+    useSoundStore.getState().load();
+    useThemeStore.getState().load();
+    const saved = loadFromStorage();
+    if (saved) {
+      loadGame(saved);
+    } else {
+      reset();
+    }
+    // Only settled turns are saved, so a reload never lands between a move and its spawn.
+    // Puzzles aren't saved either; a reload goes back to the game played before.
+    return useGameStore.subscribe(
+      state => (state.turnPhase === 'input' && state.challenge?.kind !== 'puzzle' ? snapshot(state) : null),
+      game => {
+        if (game) saveToStorage(game);
+      },
+      { equalityFn: shallow },
+    );
+  }, [reset, loadGame]);
 
-  // Initialize game
+  // Sound effects and vibration follow the game's events
   useEffect(() => {
-    reset();
-  }, [reset]);
+    const play = createSoundPlayer();
+    return gameEvents.subscribe(event => play(event, useSoundStore.getState().settings));
+  }, []);
 
   // Keyboard controls
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
-      switch (event.key) {
-        case 'ArrowUp':
-        case 'w':
-        case 'W':
-          event.preventDefault();
-          move('up');
-          break;
-        case 'ArrowDown':
-        case 's':
-        case 'S':
-          event.preventDefault();
-          move('down');
-          break;
-        case 'ArrowLeft':
-        case 'a':
-        case 'A':
-          event.preventDefault();
-          move('left');
-          break;
-        case 'ArrowRight':
-        case 'd':
-        case 'D':
-          event.preventDefault();
-          move('right');
-          break;
-        case 'r':
-        case 'R':
-          reset();
-          break;
-      }
+      // Leave typing in the seed and save fields alone
+      if (isEditableTarget(event.target)) return;
+
+      // Only exact matches count, so browser shortcuts like Ctrl+R keep working
+      const combo = keyCombo(event);
+      const action = combo && boundAction(useKeymapStore.getState().keymap, combo);
+      if (!action) return;
+      event.preventDefault();
+      performKeyAction(action);
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [move, reset]);
+  }, []);
+
+  // One-finger swipes move tiles while swipe mode is on; two fingers still orbit and zoom
+  const [swipeMode, setSwipeMode] = useState(true);
+  const swipeStart = useRef<{ x: number; y: number; time: number } | null>(null);
+
+  // Only touches on the board itself swipe: the panels are its siblings, and dragging a
+  // slider or typing in a field is never a move
+  const handleTouchStart = (event: React.TouchEvent) => {
+    const touch = event.touches[0];
+    // A second finger turns the gesture into a camera move
+    swipeStart.current = swipeMode && event.touches.length === 1 && !isEditableTarget(event.target)
+      ? { x: touch.clientX, y: touch.clientY, time: event.timeStamp }
+      : null;
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    const start = swipeStart.current;
+    swipeStart.current = null;
+    if (!start || event.touches.length > 0) return;
+    const touch = event.changedTouches[0];
+    const action = swipeAction(touch.clientX - start.x, touch.clientY - start.y, event.timeStamp - start.time);
+    if (action) performInput(action);
+  };
 
   return (
-    <div className="w-full h-screen relative">
-      <Canvas 
-        camera={{ position: [0, 8, 6], fov: 50 }}
-        gl={{ antialias: true, alpha: false }}
-        dpr={[1, 2]}
-      >
-        <color attach="background" args={["#faf8ef"]} />
+    <div className="w-full h-screen flex">
+      <div className="flex-1 h-full relative">
+        <div className="absolute inset-0" onTouchStart={handleTouchStart} onTouchEnd={handleTouchEnd}>
+          {domView ? (
+            <>
+              <DomView />
+              <FrameDriver />
+            </>
+          ) : (
+            <Canvas 
+              camera={{ position: [0, 8, 6], fov: 50 }}
+              gl={{ antialias: true, alpha: false }}
+              dpr={[1, 2]}
+            >
+              <color attach="background" args={[theme.background]} />
         
-        {/* Lighting */}
-        <ambientLight intensity={0.6} />
-        <directionalLight 
-          position={[10, 10, 10]} 
-          intensity={1}
-          castShadow
-          shadow-mapSize={[2048, 2048]}
-        />
-        <pointLight position={[-10, -10, -10]} intensity={0.3} />
+              {/* Lighting */}
+              <ambientLight intensity={0.6} />
+              <directionalLight 
+                position={[10, 10, 10]} 
+                intensity={1}
+                castShadow
+                shadow-mapSize={[2048, 2048]}
+              />
+              <pointLight position={[-10, -10, -10]} intensity={0.3} />
         
-        {/* Environment */}
-        <Environment preset="apartment" />
+              {/* Environment */}
+              <Environment preset={theme.environment} />
         
-        {/* Controls */}
-        <OrbitControls 
-          enablePan={false}
-          enableZoom={true}
-          enableRotate={true}
-          minDistance={3}
-          maxDistance={12}
-          minPolarAngle={0}
-          maxPolarAngle={Math.PI / 2}
-          target={[0, 0, 0]}
-        />
+              {/* Controls */}
+              <OrbitControls 
+                enablePan={false}
+                enableZoom={true}
+                enableRotate={true}
+                minDistance={3}
+                maxDistance={24}
+                minPolarAngle={0}
+                maxPolarAngle={Math.PI / 2}
+                makeDefault
+                touches={swipeMode ? { TWO: THREE.TOUCH.DOLLY_ROTATE } : { ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_PAN }}
+              />
         
-        {/* Game Components */}
-        <GameBoard />
-        <GameUI />
-      </Canvas>
+              {/* Game Components */}
+              {replaying ? (
+                <>
+                  <ReplayBoard />
+                  <ReplayDriver />
+                </>
+              ) : (
+                <>
+                  <GameBoard
+                    board={board}
+                    currentLayer={currentLayer}
+                    newTiles={newTiles}
+                    animatingTiles={animatingTiles}
+                    stuckLayers={stuckLayers}
+                  />
+                  <GameUI />
+                  <HintArrow />
+                  <OpponentBoard />
+                  <TurnDriver />
+                  <AutoplayDriver />
+                  <GamepadDriver />
+                </>
+              )}
+              <CameraRig />
+            </Canvas>
+          )}
+        </div>
       
-      {/* Control Instructions */}
-      <div className="absolute bottom-4 left-4 bg-black bg-opacity-50 text-white p-4 rounded">
-        <div className="text-sm">
-          <div><strong>Controls:</strong></div>
-          <div>Arrow Keys / WASD - Move tiles</div>
-          <div>R - Reset game</div>
-          <div>Mouse - Rotate view</div>
+        {replaying && <ReplayControls />}
+        <SeedPanel />
+        {!replaying && <SolverPanel />}
+        <SavePanel />
+        {!replaying && <VersusPanel />}
+        {!domView && <CameraPanel />}
+        <Announcer />
+
+        {/* Control Instructions */}
+        <div className="absolute bottom-4 left-4 bg-black bg-opacity-50 text-white p-4 rounded">
+          <div className="text-sm">
+            <div><strong>Controls:</strong></div>
+            <div>{boundKeys(keymap, ['up', 'down', 'left', 'right'])} - Move tiles</div>
+            <div>{boundKeys(keymap, ['layer-down', 'layer-up'])} - Layer down / up</div>
+            <div>{boundKeys(keymap, ['next-axes'])} - Switch active axes</div>
+            <div>{boundKeys(keymap, ['reset'])} - Reset game</div>
+            <div>{boundKeys(keymap, ['undo', 'redo'])} - Undo / Redo</div>
+            <div>{boundKeys(keymap, ['camera-default', 'camera-top', 'camera-isometric', 'camera-exploded'])} - Camera views</div>
+            <div>Mouse - Rotate view</div>
+            <div>{swipeMode ? 'Swipe - Move tiles, two fingers - Rotate view' : 'Touch - Rotate view'}</div>
+            <div>Gamepad - D-pad / stick to move, bumpers for layers</div>
+            <div className="flex gap-2 mt-2">
+              <button className="bg-white/20 rounded px-2" onClick={() => setSwipeMode(mode => !mode)}>
+                Touch: {swipeMode ? 'Swipe' : 'Orbit'}
+              </button>
+              <button className="bg-white/20 rounded px-2" onClick={() => setKeymapOpen(true)}>
+                Keys…
+              </button>
+              <button className="bg-white/20 rounded px-2" disabled={racing} onClick={() => setChallengesOpen(true)}>
+                {challenge ? `Challenge: ${challengeLabel(challenge)}` : "Challenges…"}
+              </button>
+              <button
+                className="bg-white/20 rounded px-2"
+                disabled={!webgl}
+                title={webgl ? undefined : "WebGL isn't available in this browser"}
+                onClick={() => setViewChoice(domView ? '3d' : 'dom')}
+              >
+                View: {domView ? 'Text' : '3D'}
+              </button>
+            </div>
+            <div className="flex gap-2 mt-2 items-center">
+              <button className="bg-white/20 rounded px-2" onClick={() => updateSound({ muted: !sound.muted })}>
+                Sound: {sound.muted ? 'Off' : 'On'}
+              </button>
+              <input
+                type="range"
+                aria-label="Volume"
+                min={0}
+                max={100}
+                value={Math.round(sound.volume * 100)}
+                disabled={sound.muted}
+                onChange={(event) => updateSound({ volume: Number(event.target.value) / 100 })}
+              />
+              <label className="flex gap-1 items-center">
+                <input
+                  type="checkbox"
+                  checked={sound.haptics}
+                  onChange={(event) => updateSound({ haptics: event.target.checked })}
+                />
+                Vibrate
+              </label>
+            </div>
+            <ThemePicker />
+          </div>
         </div>
+        {keymapOpen && <KeymapSettings onClose={() => setKeymapOpen(false)} />}
+        {!replaying && <ChallengeResultScreen onLevelSelect={() => setChallengesOpen(true)} />}
+        {challengesOpen && <ChallengeMenu onClose={() => setChallengesOpen(false)} />}
       </div>
+      <StatsPanel />
     </div>
   );
 }
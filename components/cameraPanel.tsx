@@ -0,0 +1,40 @@
+import { CAMERA_VIEWS, MAX_LAYER_SPACING, MIN_LAYER_SPACING } from "../lib/camera";
+import { useCameraStore } from "./cameraStore";
+
+// Camera Panel Component
+export function CameraPanel() {
+  const { view, autoFocus, layerSpacing, showView, setAutoFocus, setLayerSpacing } = useCameraStore();
+
+  return (
+    <div className="absolute bottom-4 right-4 bg-black bg-opacity-50 text-white p-4 rounded text-sm">
+      <div><strong>Camera</strong></div>
+      <div className="flex gap-2 mt-2">
+        {CAMERA_VIEWS.map(entry => (
+          <button
+            key={entry.view}
+            className={`rounded px-2 ${entry.view === view ? "bg-white/40" : "bg-white/20"}`}
+            onClick={() => showView(entry.view)}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+      <label className="flex gap-2 mt-2 items-center">
+        <input type="checkbox" checked={autoFocus} onChange={(event) => setAutoFocus(event.target.checked)} />
+        Follow current layer
+      </label>
+      <label className="flex gap-2 mt-2 items-center">
+        Layer spacing
+        <input
+          type="range"
+          min={MIN_LAYER_SPACING}
+          max={MAX_LAYER_SPACING}
+          step={0.1}
+          value={layerSpacing}
+          onChange={(event) => setLayerSpacing(Number(event.target.value))}
+        />
+        {layerSpacing.toFixed(1)}
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { create } from "zustand";
+import { DEFAULT_LAYER_SPACING, type CameraView } from "../lib/camera";
+
+// Camera store: the chosen view and how far apart layers are drawn
+interface CameraState {
+  view: CameraView;
+  // Bumped on every request, so asking for the current view again returns to it
+  request: number;
+  // Re-centres the camera whenever the current layer changes
+  autoFocus: boolean;
+  layerSpacing: number;
+  showView: (view: CameraView) => void;
+  setAutoFocus: (autoFocus: boolean) => void;
+  setLayerSpacing: (layerSpacing: number) => void;
+}
+
+export const useCameraStore = create<CameraState>()(set => ({
+  view: 'default',
+  request: 0,
+  autoFocus: false,
+  layerSpacing: DEFAULT_LAYER_SPACING,
+
+  showView: (view: CameraView) => {
+    set(state => ({ view, request: state.request + 1 }));
+  },
+
+  setAutoFocus: (autoFocus: boolean) => {
+    set({ autoFocus });
+  },
+
+  setLayerSpacing: (layerSpacing: number) => {
+    set({ layerSpacing });
+  },
+}));
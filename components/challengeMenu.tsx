@@ -0,0 +1,177 @@
+import { useState, useMemo } from "react";
+import {
+  challengeKey,
+  challengeLabel,
+  goalLabel,
+  LevelError,
+  LEVELS,
+  MOVE_LIMITS,
+  parseLevels,
+  TIME_ATTACK_SECONDS,
+  type Challenge,
+  type ChallengeResult,
+  type Level,
+} from "../lib/challenge";
+import { formatDuration } from "../lib/stats";
+import { useGameStore } from "./gameStore";
+import { useChallengeStore } from "./challengeStore";
+import { useThemeStore } from "./themeStore";
+import { ImportButton } from "./files";
+
+// Built-in levels followed by the ones imported this session
+function useLevels(): Level[] {
+  const importedLevels = useChallengeStore(state => state.importedLevels);
+  return useMemo(() => [...LEVELS, ...importedLevels], [importedLevels]);
+}
+
+// Level Select Component
+export function ChallengeMenu({ onClose }: { onClose: () => void }) {
+  const { challenge, config, layerMode, startChallenge, endChallenge } = useGameStore();
+  const { records, importLevels } = useChallengeStore();
+  const levels = useLevels();
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const start = (next: Challenge) => {
+    startChallenge(next);
+    onClose();
+  };
+
+  const importFile = (text: string) => {
+    try {
+      const imported = parseLevels(text);
+      const taken = imported.find(level => LEVELS.some(builtin => builtin.id === level.id));
+      if (taken) throw new LevelError(`Level id "${taken.id}" is taken by a built-in level`);
+      importLevels(imported);
+      setMessage({ text: `Imported ${imported.length} ${imported.length === 1 ? "level" : "levels"}`, error: false });
+    } catch (error) {
+      if (!(error instanceof LevelError)) throw error;
+      setMessage({ text: error.message, error: true });
+    }
+  };
+
+  // Best scores are kept per board, so they are shown for the board being played
+  const bestScore = (next: Challenge) => records.bestScores[challengeKey(next, config, layerMode)];
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/40 z-10">
+      <div className="bg-black bg-opacity-75 text-white p-4 rounded text-sm max-h-full overflow-y-auto w-96">
+        <div className="flex justify-between gap-4">
+          <strong>Challenges</strong>
+          <button className="bg-white/20 rounded px-2" onClick={onClose}>Close</button>
+        </div>
+        {challenge && (
+          <div className="flex gap-2 mt-2 items-center">
+            <span>Playing: {challengeLabel(challenge)}</span>
+            <button
+              className="bg-white/20 rounded px-2"
+              onClick={() => {
+                endChallenge();
+                onClose();
+              }}
+            >
+              Leave
+            </button>
+          </div>
+        )}
+
+        <div className="mt-3"><strong>Time attack</strong> <span className="text-xs">Best score before the clock runs out</span></div>
+        <div className="flex gap-2 mt-1">
+          {TIME_ATTACK_SECONDS.map(seconds => {
+            const best = bestScore({ kind: 'time-attack', seconds });
+            return (
+              <button key={seconds} className="bg-white/20 rounded px-2" onClick={() => start({ kind: 'time-attack', seconds })}>
+                {formatDuration(seconds * 1000)}{best !== undefined && ` · best ${best}`}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="mt-3"><strong>Move limit</strong> <span className="text-xs">Best score in so many moves</span></div>
+        <div className="flex gap-2 mt-1">
+          {MOVE_LIMITS.map(moves => {
+            const best = bestScore({ kind: 'move-limit', moves });
+            return (
+              <button key={moves} className="bg-white/20 rounded px-2" onClick={() => start({ kind: 'move-limit', moves })}>
+                {moves} moves{best !== undefined && ` · best ${best}`}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="mt-3"><strong>Puzzles</strong></div>
+        <table className="w-full mt-1">
+          <tbody>
+            {levels.map(level => {
+              const solved = records.solvedLevels[level.id];
+              return (
+                <tr key={level.id}>
+                  <td className="pr-2">{solved !== undefined ? "✓" : ""}</td>
+                  <td className="pr-2">
+                    <div>{level.name}</div>
+                    <div className="text-xs">
+                      {goalLabel(level.goal)}{solved !== undefined && ` · solved in ${solved}`}
+                    </div>
+                  </td>
+                  <td className="text-right">
+                    <button className="bg-white/20 rounded px-2" onClick={() => start({ kind: 'puzzle', level })}>
+                      Play
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <ImportButton label="Import levels" className="inline-block mt-2" onImport={importFile} />
+        {message && (
+          <div className={message.error ? "text-red-300 mt-2" : "text-green-300 mt-2"}>{message.text}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Challenge Result Component: the success or failure screen once a challenge ends
+export function ChallengeResultScreen({ onLevelSelect }: { onLevelSelect: () => void }) {
+  const { challenge, challengeResult, config, layerMode, reset, startChallenge, endChallenge } = useGameStore();
+  const records = useChallengeStore(state => state.records);
+  const levels = useLevels();
+  const theme = useThemeStore(state => state.theme);
+  // The result the player closed to look at the board; a new result shows again
+  const [dismissed, setDismissed] = useState<ChallengeResult | null>(null);
+  if (!challenge || !challengeResult || challengeResult === dismissed) return null;
+
+  const key = challengeKey(challenge, config, layerMode);
+  const best = challenge.kind === 'puzzle' ? records.solvedLevels[key] : records.bestScores[key];
+  const index = challenge.kind === 'puzzle' ? levels.findIndex(level => level.id === challenge.level.id) : -1;
+  const nextLevel = challengeResult.success && index !== -1 ? levels[index + 1] : undefined;
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/40 z-10">
+      <div
+        className="p-4 rounded text-sm w-72"
+        style={{ background: challengeResult.success ? theme.win : theme.lose, color: theme.statusText }}
+        role="dialog"
+        aria-label={challengeResult.success ? "Challenge complete" : "Challenge failed"}
+      >
+        <div className="text-lg font-bold">{challengeResult.success ? "Challenge complete!" : "Challenge failed"}</div>
+        <div className="mt-1">{challengeLabel(challenge)}</div>
+        <div className="mt-2">{challengeResult.message}</div>
+        {best !== undefined && (
+          <div className="mt-1">Best: {challenge.kind === 'puzzle' ? `${best} moves` : best}</div>
+        )}
+        <div className="flex flex-wrap gap-2 mt-3">
+          {nextLevel && (
+            <button className="bg-white/30 rounded px-2" onClick={() => startChallenge({ kind: 'puzzle', level: nextLevel })}>
+              Next level
+            </button>
+          )}
+          <button className="bg-white/20 rounded px-2" onClick={() => reset()}>Retry</button>
+          <button className="bg-white/20 rounded px-2" onClick={onLevelSelect}>Challenges…</button>
+          <button className="bg-white/20 rounded px-2" onClick={() => setDismissed(challengeResult)}>View board</button>
+          <button className="bg-white/20 rounded px-2" onClick={endChallenge}>Leave</button>
+        </div>
+      </div>
+    </div>
+  );
+}
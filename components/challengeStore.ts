@@ -0,0 +1,41 @@
+import { create } from "zustand";
+import {
+  emptyRecords,
+  loadRecords,
+  recordChallenge,
+  saveRecords,
+  type Challenge,
+  type ChallengeProgress,
+  type ChallengeRecords,
+  type Level,
+} from "../lib/challenge";
+
+// Challenge records and imported levels store
+interface ChallengeState {
+  records: ChallengeRecords;
+  // Levels imported this session; they follow the built-in ones in the level select
+  importedLevels: Level[];
+  load: () => void;
+  record: (key: string, challenge: Challenge, progress: ChallengeProgress) => void;
+  // Adds levels, replacing imported ones with the same id
+  importLevels: (levels: Level[]) => void;
+}
+
+export const useChallengeStore = create<ChallengeState>()(set => ({
+  records: emptyRecords(),
+  importedLevels: [],
+
+  load: () => {
+    set({ records: loadRecords() });
+  },
+
+  record: (key: string, challenge: Challenge, progress: ChallengeProgress) => {
+    set(state => ({ records: recordChallenge(state.records, key, challenge, progress) }));
+    saveRecords(useChallengeStore.getState().records);
+  },
+
+  importLevels: (levels: Level[]) => {
+    const ids = new Set(levels.map(level => level.id));
+    set(state => ({ importedLevels: [...state.importedLevels.filter(level => !ids.has(level.id)), ...levels] }));
+  },
+}));
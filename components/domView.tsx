@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { canAddLayer, lockedLayers, maxTile, specialTile } from "../lib/engine";
+import {
+  allCoords,
+  axisName,
+  getCell,
+  layerCount,
+  type Board,
+  type Coords,
+} from "../lib/board";
+import { createGamepadReader, type InputAction } from "../lib/input";
+import { tileColor, tileTextColor } from "../lib/theme";
+import { challengeStatus, mergedValues, useGameStore, type GameState } from "./gameStore";
+import { useReplayStore } from "./replayStore";
+import { useThemeStore } from "./themeStore";
+import { useRacing, useVersusStore } from "./versusStore";
+import { useSolverStore } from "./solverStore";
+import { getTileLabel } from "./tiles";
+import { performInput, pollGamepads } from "./inputActions";
+
+// What a screen reader should hear about a change of state
+function describeChange(previous: GameState, next: GameState): string[] {
+  const messages: string[] = [];
+  if (next.score !== previous.score) {
+    const merged = mergedValues(next);
+    messages.push(merged.length > 0 ? `Merged ${merged.join(", ")}. Score ${next.score}.` : `Score ${next.score}.`);
+  }
+  if (next.currentLayer !== previous.currentLayer || next.totalLayers !== previous.totalLayers) {
+    messages.push(`Layer ${next.currentLayer + 1} of ${next.totalLayers}.`);
+  }
+  if (next.gameWon && !previous.gameWon) {
+    messages.push(`You win! You made ${next.target ?? maxTile(next)}.`);
+  }
+  if (next.gameOver && !previous.gameOver) {
+    messages.push(`Game over. Final score ${next.score}.`);
+  }
+  if (next.challengeResult && !previous.challengeResult) {
+    messages.push(next.challengeResult.message);
+  }
+  return messages;
+}
+
+// How many announcements the live region keeps
+const ANNOUNCEMENT_LOG_SIZE = 5;
+
+// Screen-reader announcements for merges, scores, layers and the end of the game, in both views
+export function Announcer() {
+  const [log, setLog] = useState<{ id: number; text: string }[]>([]);
+
+  useEffect(() => {
+    let nextId = 0;
+    return useGameStore.subscribe((next, previous) => {
+      const messages = describeChange(previous, next);
+      if (messages.length === 0) return;
+      const entry = { id: nextId++, text: messages.join(" ") };
+      setLog(current => [...current, entry].slice(-ANNOUNCEMENT_LOG_SIZE));
+    });
+  }, []);
+
+  return (
+    <div role="log" aria-live="polite" className="sr-only">
+      {log.map(entry => <div key={entry.id}>{entry.text}</div>)}
+    </div>
+  );
+}
+
+// One layer of a board as an HTML table
+function DomLayer({ board, hyper, layer, current, stuck, onSelect }: {
+  board: Board;
+  hyper: Coords;
+  layer: number;
+  current: boolean;
+  stuck: boolean;
+  // Left out for boards the player can't interact with
+  onSelect?: () => void;
+}) {
+  const [width, height] = board.shape;
+  const rows = Array.from({ length: height }, (_, y) => y);
+  const columns = Array.from({ length: width }, (_, x) => x);
+  const hyperLabel = hyper.map((coord, i) => `${axisName(i + 3)}=${coord}`).join(" ");
+  const theme = useThemeStore(state => state.theme);
+
+  return (
+    <table
+      className={`border-separate border-spacing-1 rounded ${current ? "" : "opacity-70"}`}
+      style={{ background: theme.layerBase, outline: current ? `4px solid ${theme.button}` : undefined }}
+    >
+      <caption className="text-sm">
+        {onSelect ? (
+          <button className="underline" aria-pressed={current} onClick={onSelect}>
+            Layer {layer + 1}{hyperLabel && ` (${hyperLabel})`}
+          </button>
+        ) : (
+          <>Layer {layer + 1}{hyperLabel && ` (${hyperLabel})`}</>
+        )}
+        {current && " · current"}
+        {stuck && " · stuck"}
+      </caption>
+      <tbody>
+        {rows.map(y => (
+          <tr key={y}>
+            {columns.map(x => {
+              const value = getCell(board, [x, y, layer, ...hyper]);
+              return (
+                <td
+                  key={x}
+                  className="w-12 h-12 text-center font-bold rounded"
+                  style={{ background: tileColor(theme, value), color: tileTextColor(theme, value) }}
+                  aria-label={value === 0 ? "empty" : specialTile(value) ?? String(value)}
+                >
+                  {value === 0 ? "" : getTileLabel(value)}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// DOM View Component: the same game as plain HTML, for screen readers and browsers without WebGL
+export function DomView() {
+  const game = useGameStore();
+  const { frames, index } = useReplayStore();
+  const opponent = useVersusStore(state => state.opponent);
+  const racing = useRacing();
+  const theme = useThemeStore(state => state.theme);
+  const buttonStyle = { background: theme.button, color: theme.buttonText };
+  const { score, totalLayers, gameWon, gameOver, keepPlaying, history, undosRemaining, reset, undo, redo, addLayer, keepGoing, selectLayer } = game;
+  const status = challengeStatus(game);
+  // Replays show their own board in place of the live one
+  const shown = frames ? frames[index].state : game;
+  const { board, currentLayer } = shown;
+  const stuck = frames ? lockedLayers(frames[index].state) : game.stuckLayers;
+  const stacks = allCoords(board.shape.slice(3));
+  const layers = Array.from({ length: layerCount(board) }, (_, layer) => layer);
+  const moves: [InputAction, string][] = [
+    ['up', "Up"],
+    ['down', "Down"],
+    ['left', "Left"],
+    ['right', "Right"],
+    ['layer-down', "Layer down"],
+    ['layer-up', "Layer up"],
+  ];
+
+  return (
+    <div className="h-full overflow-y-auto p-4 pt-40" style={{ background: theme.background, color: theme.text }}>
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-2xl font-bold">5D 2048</h1>
+        <div className="flex flex-wrap gap-4 mt-2">
+          <span>Score: {frames ? frames[index].state.score : score}</span>
+          <span>Layer: {currentLayer + 1}/{frames ? layers.length : totalLayers}</span>
+          {!frames && status && <span>{status}</span>}
+          {!frames && gameWon && <span role="status">You Win!</span>}
+          {!frames && gameOver && <span role="status">Game Over</span>}
+        </div>
+        {!frames && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            <button className="rounded px-2 disabled:opacity-50" style={buttonStyle} disabled={racing} onClick={() => reset()}>
+              New Game
+            </button>
+            <button
+              className="rounded px-2 disabled:opacity-50"
+              style={buttonStyle}
+              disabled={history.past.length === 0 || undosRemaining === 0}
+              onClick={undo}
+            >
+              {undosRemaining === null ? "Undo" : `Undo (${undosRemaining})`}
+            </button>
+            <button
+              className="rounded px-2 disabled:opacity-50"
+              style={buttonStyle}
+              disabled={history.future.length === 0}
+              onClick={redo}
+            >
+              Redo
+            </button>
+            <button
+              className="rounded px-2 disabled:opacity-50"
+              style={buttonStyle}
+              disabled={!canAddLayer(game)}
+              onClick={addLayer}
+            >
+              Add Layer
+            </button>
+            {gameWon && !keepPlaying && (
+              <button
+                className="rounded px-2"
+                style={{ background: theme.win, color: theme.statusText }}
+                onClick={keepGoing}
+              >
+                Keep Going
+              </button>
+            )}
+          </div>
+        )}
+        {!frames && (
+          <div className="flex flex-wrap gap-2 mt-2" aria-label="Moves" role="group">
+            {moves.map(([action, label]) => (
+              <button key={action} className="rounded px-2" style={buttonStyle} onClick={() => performInput(action)}>
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        {stacks.map(hyper => (
+          <div key={hyper.join('-')} className="flex flex-wrap gap-4 mt-4">
+            {layers.map(layer => (
+              <DomLayer
+                key={layer}
+                board={board}
+                hyper={hyper}
+                layer={layer}
+                current={layer === currentLayer}
+                stuck={stuck[layer] ?? false}
+                onSelect={() => {
+                  if (!frames) selectLayer(layer);
+                }}
+              />
+            ))}
+          </div>
+        ))}
+        {opponent && (
+          <section className="mt-6" aria-label="Opponent's board">
+            <h2 className="font-bold">Opponent · Score {opponent.score}{opponent.gameOver && " · stuck"}</h2>
+            {allCoords(opponent.board.shape.slice(3)).map(hyper => (
+              <div key={hyper.join('-')} className="flex flex-wrap gap-4 mt-2">
+                {Array.from({ length: layerCount(opponent.board) }, (_, layer) => (
+                  <DomLayer
+                    key={layer}
+                    board={opponent.board}
+                    hyper={hyper}
+                    layer={layer}
+                    current={layer === opponent.currentLayer}
+                    stuck={false}
+                  />
+                ))}
+              </div>
+            ))}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Does the work of the render loop drivers for the DOM view, which has no render loop
+export function FrameDriver() {
+  const [readGamepads] = useState(createGamepadReader);
+  useEffect(() => {
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      // Long pauses, like a hidden tab, count as a single slow frame
+      const delta = Math.min((now - last) / 1000, 0.1);
+      last = now;
+      useGameStore.getState().advanceTurn(delta);
+      useSolverStore.getState().advance(delta);
+      useReplayStore.getState().advance(delta);
+      pollGamepads(readGamepads);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [readGamepads]);
+  return null;
+}
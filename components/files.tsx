@@ -0,0 +1,33 @@
+// Button that opens a JSON file and hands over its text
+export function ImportButton({ label, className = "", disabled = false, onImport }: {
+  label: string;
+  className?: string;
+  disabled?: boolean;
+  onImport: (text: string) => void;
+}) {
+  return (
+    <label className={`bg-white/20 rounded px-2 ${disabled ? "opacity-50" : "cursor-pointer"} ${className}`}>
+      {label}
+      <input
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        disabled={disabled}
+        onChange={async (event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) onImport(await file.text());
+        }}
+      />
+    </label>
+  );
+}
+
+export function downloadFile(name: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
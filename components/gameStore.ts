@@ -0,0 +1,675 @@
+import { create } from "zustand";
+import { subscribeWithSelector } from "zustand/middleware";
+import {
+  applyMove,
+  createInitialState,
+  DEFAULT_CONFIG,
+  dropBlockers,
+  DEFAULT_LOCK_POLICY,
+  hasWon,
+  isGameOver,
+  lockedLayers,
+  maxTile,
+  newGame,
+  placeTile,
+  spawnStartingTile,
+  spawnTile,
+  WIN_VALUE,
+  type Direction,
+  type EngineState,
+  type GameConfig,
+  type LayerCost,
+  type LayerMode,
+  type LockPolicy,
+  type RuleVariant,
+  type SpawnedTile,
+  type TileMove,
+} from "../lib/engine";
+import { layerCount } from "../lib/board";
+import {
+  createHistory,
+  DEFAULT_HISTORY_LIMIT,
+  record,
+  redo as redoHistory,
+  undo as undoHistory,
+  type History,
+} from "../lib/history";
+import { dailySeed, randomSeed } from "../lib/rng";
+import type { SavedGame } from "../lib/persistence";
+import { createEventBus } from "../lib/events";
+import {
+  challengeKey,
+  challengeOutcome,
+  goalLabel,
+  levelState,
+  type Challenge,
+  type ChallengeProgress,
+  type ChallengeResult,
+  type LevelSpawn,
+} from "../lib/challenge";
+import { formatDuration } from "../lib/stats";
+import { applyLayerAction, isLayerAction, type GameAction, type Replay } from "../lib/replay";
+import { useStatsStore } from "./statsStore";
+import { useChallengeStore } from "./challengeStore";
+
+// Slides, merges, spawns and the like, as the store plays them; sound and haptics listen here
+export const gameEvents = createEventBus();
+
+// Game state store
+export interface GameState extends EngineState {
+  totalLayers: number;
+  gameWon: boolean;
+  gameOver: boolean;
+  // Tile that wins the game, or null in endless mode
+  target: number | null;
+  // Set once the player dismisses the win and plays on
+  keepPlaying: boolean;
+  // Whether losing takes one stuck layer or all of them
+  lockPolicy: LockPolicy;
+  // Layers where no tile can move any more, by layer index
+  stuckLayers: boolean[];
+  // Tiles the last move slid or merged, by tile identity
+  animatingTiles: Map<number, TileMove>;
+  // Identities of freshly spawned tiles
+  newTiles: Set<number>;
+  // Axes the horizontal and vertical move keys act on
+  activeAxes: [number, number];
+  history: History<GameSnapshot>;
+  historyLimit: number;
+  // Undos allowed per game in the limited undos mode, null when unlimited
+  undoLimit: number | null;
+  undosRemaining: number | null;
+  // Every action since the game started, recorded for replays; null for games that can't be replayed
+  actions: GameAction[] | null;
+  moves: number;
+  // When the first move was made, as an ISO date; null until then
+  startedAt: string | null;
+  turnPhase: TurnPhase;
+  // Time attack, move-limited run or puzzle level being played, null in free play
+  challenge: Challenge | null;
+  // How the challenge ended; moves are refused from then on
+  challengeResult: ChallengeResult | null;
+  // Whole seconds left in a time attack
+  timeLeft: number | null;
+  // Starts a new game, from a fresh random seed unless one is given. A puzzle level
+  // restarts from its own position instead.
+  reset: (seed?: string) => void;
+  startDailyChallenge: () => void;
+  // Queues a move; it is played once the turns before it are done
+  move: (direction: Direction) => void;
+  addRandomTile: (layer?: number) => void;
+  checkGameStatus: () => void;
+  // Layer management is queued like moves and recorded in the history
+  addLayer: () => void;
+  removeLayer: (layer: number) => void;
+  moveLayer: (from: number, to: number) => void;
+  // Steps the turn pipeline; called every frame by the render loop
+  advanceTurn: (delta: number) => void;
+  // Runs the current turn to completion without waiting for animations
+  settleTurn: () => void;
+  // Queues a switch to any layer, recorded like the layer directions
+  selectLayer: (layer: number) => void;
+  setLayerMode: (layerMode: LayerMode) => void;
+  setConfig: (config: GameConfig) => void;
+  setLayerCost: (cost: LayerCost) => void;
+  setVariant: (variant: RuleVariant) => void;
+  cycleActiveAxes: (step: number) => void;
+  undo: () => void;
+  redo: () => void;
+  setHistoryLimit: (limit: number) => void;
+  setUndoLimit: (limit: number | null) => void;
+  setLockPolicy: (policy: LockPolicy) => void;
+  setTarget: (target: number | null) => void;
+  keepGoing: () => void;
+  loadGame: (game: SavedGame) => void;
+  // Starts a versus race: both players get the same board, seed and target, and no undos
+  startMatch: (config: GameConfig, layerMode: LayerMode, seed: string, target: number) => void;
+  // Blockers the opponent's merges dropped on this board
+  receiveGarbage: (blockers: number) => void;
+  startChallenge: (challenge: Challenge) => void;
+  // Back to free play, with the board the player had before any puzzle
+  endChallenge: () => void;
+}
+
+// Everything undo/redo restores, which is also what gets saved
+type GameSnapshot = SavedGame;
+
+// A turn goes input → resolve → animate → spawn → evaluate and back to input.
+// Only the animate phase waits; the others complete within the frame they start in.
+type TurnPhase = 'input' | 'resolve' | 'animate' | 'spawn' | 'evaluate';
+
+const SLIDE_DURATION = 0.15;
+const NEW_TILE_DURATION = 0.3;
+// Inputs beyond this many waiting turns are dropped
+const MAX_QUEUED_ACTIONS = 2;
+// Longest frame the time attack clock counts, so a hidden tab doesn't run it down
+const MAX_CLOCK_STEP = 0.1;
+
+// Every pair of axes the move keys can be bound to, in cycling order
+function axisPairs(dimensions: number): [number, number][] {
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < dimensions; i++) {
+    for (let j = i + 1; j < dimensions; j++) {
+      pairs.push([i, j]);
+    }
+  }
+  return pairs;
+}
+
+export function engineState({ config, layerMode, board, currentLayer, score, rng, nextTileId }: GameState): EngineState {
+  return { config, layerMode, board, currentLayer, score, rng, nextTileId };
+}
+
+// Appends to the action log, unless the game is one that can no longer be replayed
+function withAction(actions: GameAction[] | null, action: GameAction): GameAction[] | null {
+  return actions && [...actions, action];
+}
+
+export function replayOf({ config, layerMode, rng, actions }: GameState): Replay | null {
+  if (!actions) return null;
+  return { config, layerMode, seed: rng.seed, algorithm: rng.algorithm, actions };
+}
+
+export function snapshot(state: GameState): GameSnapshot {
+  const { gameWon, gameOver, target, keepPlaying, moves, startedAt, actions } = state;
+  return { ...engineState(state), gameWon, gameOver, target, keepPlaying, moves, startedAt, actions };
+}
+
+export const useGameStore = create<GameState>()(
+  subscribeWithSelector((set, get) => {
+    // Actions waiting for their turn
+    let queue: GameAction[] = [];
+    // Time spent in the animate phase so far
+    let phaseElapsed = 0;
+    // Layers the spawn phase still owes tiles to; undefined spawns anywhere the mode allows
+    let pendingSpawns: (number | undefined)[] = [];
+    // How long each freshly spawned tile has been on the board
+    const newTileAges = new Map<number, number>();
+    // Tiles a puzzle level still has to deal
+    let levelSpawns: LevelSpawn[] = [];
+    // Seconds a time attack has run
+    let challengeElapsed = 0;
+    // The player's own setup, put back when they leave a puzzle
+    let setupBeforePuzzle: Pick<GameState, 'config' | 'layerMode' | 'target'> | null = null;
+
+    // Queues an action unless too many are waiting or the challenge is over
+    const enqueue = (action: GameAction) => {
+      if (queue.length < MAX_QUEUED_ACTIONS && !get().challengeResult) queue.push(action);
+    };
+
+    // Flags spawned tiles for the pop-in animation; the render loop clears the flag once it has played
+    const markNewTiles = (tiles: SpawnedTile[]) => {
+      const newTiles = new Set(get().newTiles);
+      tiles.forEach(tile => {
+        newTiles.add(tile.id);
+        newTileAges.set(tile.id, 0);
+      });
+      set({ newTiles });
+    };
+
+    const ageNewTiles = (delta: number) => {
+      if (newTileAges.size === 0) return;
+      const expired: number[] = [];
+      newTileAges.forEach((age, id) => {
+        if (age + delta >= NEW_TILE_DURATION) {
+          expired.push(id);
+        } else {
+          newTileAges.set(id, age + delta);
+        }
+      });
+      if (expired.length === 0) return;
+
+      const newTiles = new Set(get().newTiles);
+      expired.forEach(id => {
+        newTiles.delete(id);
+        newTileAges.delete(id);
+      });
+      set({ newTiles });
+    };
+
+    // Applies the next queued action and decides where the turn goes from there
+    const resolve = () => {
+      const action = queue.shift();
+      if (action === undefined) {
+        set({ turnPhase: 'input' });
+        return;
+      }
+
+      if (isLayerAction(action)) {
+        const current = engineState(get());
+        const state = applyLayerAction(current, action);
+        // Refused actions hand back the state untouched
+        if (state === current) {
+          set({ turnPhase: 'input' });
+          return;
+        }
+        // Selecting a layer only switches it, like the layer directions do
+        if (action.startsWith("select-layer")) {
+          set({ currentLayer: state.currentLayer, actions: withAction(get().actions, action), turnPhase: 'input' });
+          gameEvents.emit({ type: 'layer-change', layer: state.currentLayer });
+          return;
+        }
+        const { history, historyLimit, actions, currentLayer } = get();
+        const layer = layerCount(state.board) - 1;
+        // A new layer is seeded with two tiles
+        pendingSpawns = action === 'add-layer' ? [layer, layer] : [];
+        set({
+          board: state.board,
+          score: state.score,
+          currentLayer: state.currentLayer,
+          totalLayers: layerCount(state.board),
+          history: record(history, snapshot(get()), historyLimit),
+          actions: withAction(actions, action),
+          turnPhase: action === 'add-layer' ? 'spawn' : 'evaluate',
+        });
+        if (state.currentLayer !== currentLayer) gameEvents.emit({ type: 'layer-change', layer: state.currentLayer });
+        return;
+      }
+
+      const { state, moved, tileMoves } = applyMove(engineState(get()), action);
+      if (state.currentLayer !== get().currentLayer) {
+        set({ currentLayer: state.currentLayer, actions: withAction(get().actions, action) });
+        gameEvents.emit({ type: 'layer-change', layer: state.currentLayer });
+      }
+      if (!moved) {
+        set({ turnPhase: 'input' });
+        return;
+      }
+
+      const { history, historyLimit, actions, moves, startedAt } = get();
+      pendingSpawns = [undefined];
+      phaseElapsed = 0;
+      set({
+        board: state.board,
+        score: state.score,
+        moves: moves + 1,
+        startedAt: startedAt ?? new Date().toISOString(),
+        animatingTiles: new Map(tileMoves.map(tileMove => [tileMove.id, tileMove])),
+        history: record(history, snapshot(get()), historyLimit),
+        actions: withAction(actions, action),
+        turnPhase: 'animate',
+      });
+      gameEvents.emit({ type: 'slide' });
+      mergedValues(get()).forEach(value => gameEvents.emit({ type: 'merge', value }));
+    };
+
+    // Runs phases until one has to wait for the animation clock (or nothing is left to do)
+    const runPipeline = (delta: number, instant: boolean) => {
+      for (;;) {
+        switch (get().turnPhase) {
+          case 'input':
+            if (queue.length === 0) return;
+            set({ turnPhase: 'resolve' });
+            break;
+          case 'resolve':
+            resolve();
+            break;
+          case 'animate':
+            phaseElapsed += delta;
+            delta = 0;
+            if (!instant && phaseElapsed < SLIDE_DURATION) return;
+            set({ turnPhase: 'spawn' });
+            break;
+          case 'spawn':
+            set({ animatingTiles: new Map() });
+            pendingSpawns.forEach(layer => get().addRandomTile(layer));
+            pendingSpawns = [];
+            set({ turnPhase: 'evaluate' });
+            break;
+          case 'evaluate':
+            get().checkGameStatus();
+            set({ turnPhase: 'input' });
+            // Queued actions are only played through when animating; settling stops here
+            if (instant) return;
+            break;
+        }
+      }
+    };
+
+    // Drops the turn in flight and everything queued behind it
+    const abortTurn = () => {
+      queue = [];
+      pendingSpawns = [];
+      phaseElapsed = 0;
+      newTileAges.clear();
+      set({ turnPhase: 'input' });
+    };
+
+    // Whether the current game has already gone into the statistics
+    let recorded = false;
+
+    // Records the game when it is lost, or abandoned for another one after at least one move
+    const finishGame = () => {
+      const state = get();
+      if (recorded || state.moves === 0) return;
+      recorded = true;
+      useStatsStore.getState().record({
+        date: new Date().toISOString(),
+        config: state.config,
+        layerMode: state.layerMode,
+        seed: state.rng.seed,
+        score: state.score,
+        maxTile: maxTile(state),
+        moves: state.moves,
+        duration: state.startedAt ? Date.now() - Date.parse(state.startedAt) : 0,
+        won: state.gameWon,
+      });
+    };
+
+    // Ends the challenge once it is won, lost or out of time or moves, and keeps the record
+    const checkChallenge = () => {
+      const { challenge, challengeResult, board, score, moves, gameOver, config, layerMode } = get();
+      if (!challenge || challengeResult) return;
+      const progress: ChallengeProgress = { board, score, moves, gameOver, elapsed: challengeElapsed };
+      const result = challengeOutcome(challenge, progress);
+      if (!result) return;
+      queue = [];
+      set({ challengeResult: result });
+      if (result.success) useChallengeStore.getState().record(challengeKey(challenge, config, layerMode), challenge, progress);
+    };
+
+    // The time attack clock starts with the first move
+    const tickClock = (delta: number) => {
+      const { challenge, challengeResult, startedAt, timeLeft } = get();
+      if (challenge?.kind !== 'time-attack' || challengeResult || startedAt === null) return;
+      challengeElapsed += Math.min(delta, MAX_CLOCK_STEP);
+      const left = Math.max(0, Math.ceil(challenge.seconds - challengeElapsed));
+      if (left !== timeLeft) set({ timeLeft: left });
+      checkChallenge();
+    };
+
+    const restore = (state: GameSnapshot) => {
+      set({
+        ...state,
+        totalLayers: layerCount(state.board),
+        stuckLayers: lockedLayers(state),
+        animatingTiles: new Map(),
+        newTiles: new Set(),
+      });
+    };
+
+    return {
+      ...createInitialState(),
+      totalLayers: DEFAULT_CONFIG.layers,
+      gameWon: false,
+      gameOver: false,
+      target: WIN_VALUE,
+      keepPlaying: false,
+      lockPolicy: DEFAULT_LOCK_POLICY,
+      stuckLayers: [],
+      animatingTiles: new Map(),
+      newTiles: new Set(),
+      activeAxes: [0, 1],
+      history: createHistory(),
+      historyLimit: DEFAULT_HISTORY_LIMIT,
+      undoLimit: null,
+      undosRemaining: null,
+      actions: [],
+      moves: 0,
+      startedAt: null,
+      turnPhase: 'input',
+      challenge: null,
+      challengeResult: null,
+      timeLeft: null,
+
+      reset: (seed?: string) => {
+        abortTurn();
+        if (!get().gameOver) finishGame();
+        const { config, layerMode, undoLimit, rng, challenge } = get();
+        const puzzle = challenge?.kind === 'puzzle' ? challenge.level : null;
+        // Puzzles stay out of the statistics
+        recorded = puzzle !== null;
+        challengeElapsed = 0;
+        levelSpawns = puzzle ? [...puzzle.spawns] : [];
+        // A level's own tiles aren't dealt by the seed, which only places the tiles it leaves to chance
+        const { state, spawned } = puzzle
+          ? { state: levelState(puzzle, seed ?? randomSeed()), spawned: [] }
+          : newGame(config, layerMode, seed ?? randomSeed(), rng.algorithm);
+        set({ 
+          ...state,
+          totalLayers: layerCount(state.board),
+          gameWon: false, 
+          gameOver: false,
+          keepPlaying: false,
+          stuckLayers: lockedLayers(state),
+          animatingTiles: new Map(),
+          newTiles: new Set(),
+          history: createHistory(),
+          // Challenges are played without undos, so every move counts
+          undosRemaining: challenge ? 0 : undoLimit,
+          actions: puzzle ? null : [],
+          moves: 0,
+          startedAt: null,
+          challengeResult: null,
+          timeLeft: challenge?.kind === 'time-attack' ? challenge.seconds : null,
+        });
+        markNewTiles(spawned);
+      },
+
+      addRandomTile: (layerIndex?: number) => {
+        // Puzzle levels deal their own tiles after each move until their sequence runs out
+        const next = layerIndex === undefined ? levelSpawns.shift() : undefined;
+        // New layers start with numbers only, like new games
+        const { state, spawned } = next
+          ? placeTile(engineState(get()), next.value, next.at)
+          : layerIndex === undefined
+            ? spawnTile(engineState(get()))
+            : spawnStartingTile(engineState(get()), layerIndex);
+        if (!spawned) return;
+
+        set({ board: state.board, rng: state.rng, nextTileId: state.nextTileId });
+        markNewTiles([spawned]);
+        gameEvents.emit({ type: 'spawn', value: spawned.value });
+      },
+
+      addLayer: () => {
+        enqueue('add-layer');
+      },
+
+      removeLayer: (layer: number) => {
+        enqueue(`remove-layer:${layer}`);
+      },
+
+      moveLayer: (from: number, to: number) => {
+        enqueue(`move-layer:${from}:${to}`);
+      },
+
+      advanceTurn: (delta: number) => {
+        ageNewTiles(delta);
+        runPipeline(delta, false);
+        tickClock(delta);
+      },
+
+      settleTurn: () => {
+        queue = [];
+        runPipeline(0, true);
+      },
+
+      selectLayer: (layer: number) => {
+        enqueue(`select-layer:${layer}`);
+      },
+
+      setLayerMode: (layerMode: LayerMode) => {
+        set({ layerMode });
+        get().reset(get().rng.seed);
+      },
+
+      setConfig: (config: GameConfig) => {
+        set({ config, activeAxes: [0, 1] });
+        get().reset(get().rng.seed);
+      },
+
+      setLayerCost: (layerCost: LayerCost) => {
+        set({ config: { ...get().config, layerCost } });
+        get().reset(get().rng.seed);
+      },
+
+      setVariant: (variant: RuleVariant) => {
+        set({ config: { ...get().config, variant } });
+        get().reset(get().rng.seed);
+      },
+
+      cycleActiveAxes: (step: number) => {
+        const { board, activeAxes } = get();
+        const pairs = axisPairs(board.shape.length);
+        const index = pairs.findIndex(([a, b]) => a === activeAxes[0] && b === activeAxes[1]);
+        set({ activeAxes: pairs[(index + step + pairs.length) % pairs.length] });
+      },
+
+      move: (direction: Direction) => {
+        enqueue(direction);
+      },
+
+      // A loaded game is always free play
+      loadGame: (game: SavedGame) => {
+        abortTurn();
+        if (!get().gameOver) finishGame();
+        recorded = false;
+        setupBeforePuzzle = null;
+        restore(game);
+        set({
+          history: createHistory(),
+          undosRemaining: get().undoLimit,
+          challenge: null,
+          challengeResult: null,
+          timeLeft: null,
+        });
+      },
+
+      startDailyChallenge: () => {
+        get().reset(dailySeed());
+      },
+
+      startMatch: (config: GameConfig, layerMode: LayerMode, seed: string, target: number) => {
+        setupBeforePuzzle = null;
+        set({ config, layerMode, target, activeAxes: [0, 1], challenge: null });
+        get().reset(seed);
+        // Undoing would also take back the opponent's blockers
+        set({ undosRemaining: 0 });
+      },
+
+      receiveGarbage: (blockers: number) => {
+        const { state, dropped } = dropBlockers(engineState(get()), blockers);
+        if (dropped.length === 0) return;
+        // Blockers aren't recorded actions, so the game can't be replayed any more
+        set({ board: state.board, rng: state.rng, nextTileId: state.nextTileId, actions: null });
+        markNewTiles(dropped);
+        get().checkGameStatus();
+      },
+
+      // Timed and move-limited runs use the current board; puzzles bring their own
+      startChallenge: (challenge: Challenge) => {
+        if (challenge.kind === 'puzzle') {
+          const { config, layerMode, target } = get();
+          setupBeforePuzzle ??= { config, layerMode, target };
+          const { level } = challenge;
+          set({ config: level.config, layerMode: level.layerMode, target: null, activeAxes: [0, 1] });
+        } else if (setupBeforePuzzle) {
+          set({ ...setupBeforePuzzle, activeAxes: [0, 1] });
+          setupBeforePuzzle = null;
+        }
+        set({ challenge });
+        get().reset();
+      },
+
+      endChallenge: () => {
+        if (setupBeforePuzzle) {
+          set({ ...setupBeforePuzzle, activeAxes: [0, 1] });
+          setupBeforePuzzle = null;
+        }
+        set({ challenge: null });
+        get().reset();
+      },
+
+      undo: () => {
+        // Let the last move spawn its tile first so redo brings back the exact board
+        get().settleTurn();
+        const { history, undosRemaining } = get();
+        if (undosRemaining === 0) return;
+
+        const result = undoHistory(history, snapshot(get()));
+        if (!result) return;
+        restore(result.snapshot);
+        set({
+          history: result.history,
+          undosRemaining: undosRemaining === null ? null : undosRemaining - 1,
+        });
+      },
+
+      redo: () => {
+        get().settleTurn();
+        const result = redoHistory(get().history, snapshot(get()));
+        if (!result) return;
+        restore(result.snapshot);
+        set({ history: result.history });
+      },
+
+      setHistoryLimit: (limit: number) => {
+        const { history } = get();
+        set({
+          historyLimit: limit,
+          history: { ...history, past: history.past.slice(Math.max(0, history.past.length - limit)) },
+        });
+      },
+
+      // Changing the allowance starts a new game so it cannot be topped up mid-run
+      setUndoLimit: (limit: number | null) => {
+        set({ undoLimit: limit });
+        get().reset(get().rng.seed);
+      },
+
+      // Cheap enough to check right away; only the loss condition depends on the policy
+      setLockPolicy: (policy: LockPolicy) => {
+        set({ lockPolicy: policy });
+        get().checkGameStatus();
+      },
+
+      // Like the undo allowance, changing the target starts a new game
+      setTarget: (target: number | null) => {
+        set({ target });
+        get().reset(get().rng.seed);
+      },
+
+      keepGoing: () => {
+        if (get().gameWon) set({ keepPlaying: true });
+      },
+
+      checkGameStatus: () => {
+        const state = engineState(get());
+        const { target, gameWon, gameOver } = get();
+        set({
+          gameWon: target !== null && hasWon(state, target),
+          gameOver: isGameOver(state, get().lockPolicy),
+          stuckLayers: lockedLayers(state),
+        });
+        if (get().gameWon && !gameWon && target !== null) gameEvents.emit({ type: 'win', value: target });
+        if (get().gameOver && !gameOver) gameEvents.emit({ type: 'game-over', score: state.score });
+        if (get().gameOver) finishGame();
+        checkChallenge();
+      }
+    };
+  })
+);
+
+// What the current challenge has left, e.g. "Time 0:42" or "Make 256 · 3 moves left"
+export function challengeStatus({ challenge, timeLeft, moves }: GameState): string | null {
+  if (!challenge) return null;
+  switch (challenge.kind) {
+    case 'time-attack':
+      return `Time ${formatDuration((timeLeft ?? challenge.seconds) * 1000)}`;
+    case 'move-limit':
+      return `${Math.max(0, challenge.moves - moves)} moves left`;
+    case 'puzzle': {
+      const { tile, layer, moves: limit } = challenge.level.goal;
+      const left = limit === undefined ? "" : ` · ${Math.max(0, limit - moves)} moves left`;
+      return `${goalLabel({ tile, layer })}${left}`;
+    }
+  }
+}
+
+// Tiles the last move merged into, largest first; bombs leave nothing behind
+export function mergedValues(state: GameState): number[] {
+  const { cells, ids } = state.board;
+  const survivors = new Set([...state.animatingTiles.values()].map(tileMove => tileMove.mergedInto));
+  return cells.filter((value, index) => value > 0 && survivors.has(ids[index])).sort((a, b) => b - a);
+}
@@ -0,0 +1,58 @@
+import { allDirections, axisDirection } from "../lib/engine";
+import { createGamepadReader, type InputAction } from "../lib/input";
+import { cameraView, isCameraAction, isHyperAction, type KeyAction } from "../lib/keymap";
+import { useGameStore } from "./gameStore";
+import { useReplayStore } from "./replayStore";
+import { useCameraStore } from "./cameraStore";
+import { useVersusStore } from "./versusStore";
+
+// Plays an action from any input device on the live game
+export function performInput(action: InputAction) {
+  // The live game is hidden while a replay plays
+  if (useReplayStore.getState().frames) return;
+
+  const game = useGameStore.getState();
+  // Screen directions act on the active axis pair, which is x/y unless the player switched it
+  const [horizontal, vertical] = game.activeAxes;
+  switch (action) {
+    case 'left':
+      return game.move(axisDirection(horizontal, -1));
+    case 'right':
+      return game.move(axisDirection(horizontal, 1));
+    case 'up':
+      return game.move(axisDirection(vertical, -1));
+    case 'down':
+      return game.move(axisDirection(vertical, 1));
+    case 'layer-up':
+    case 'layer-down':
+      return game.move(action);
+    case 'undo':
+      return game.undo();
+    case 'redo':
+      return game.redo();
+    case 'reset':
+      if (useVersusStore.getState().status === 'racing') return;
+      return game.reset();
+    case 'next-axes':
+      return game.cycleActiveAxes(1);
+    case 'previous-axes':
+      return game.cycleActiveAxes(-1);
+  }
+}
+
+// Plays a bound key's action
+export function performKeyAction(action: KeyAction) {
+  if (isCameraAction(action)) {
+    useCameraStore.getState().showView(cameraView(action));
+  } else if (isHyperAction(action)) {
+    const game = useGameStore.getState();
+    if (!useReplayStore.getState().frames && allDirections(game.config).includes(action)) game.move(action);
+  } else {
+    performInput(action);
+  }
+}
+
+export function pollGamepads(readGamepads: ReturnType<typeof createGamepadReader>) {
+  if (typeof navigator.getGamepads !== 'function') return;
+  readGamepads([...navigator.getGamepads()]).forEach(performInput);
+}
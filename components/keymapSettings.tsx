@@ -0,0 +1,87 @@
+import { useState, useEffect } from "react";
+import {
+  formatCombo,
+  KEY_ACTIONS,
+  keyCombo,
+  keymapConflicts,
+  type KeyAction,
+} from "../lib/keymap";
+import { useKeymapStore } from "./keymapStore";
+
+// Key Bindings Overlay Component
+export function KeymapSettings({ onClose }: { onClose: () => void }) {
+  const { keymap, bind, unbind, restoreDefaults } = useKeymapStore();
+  // Binding waiting for a key press; index is left out when adding a key
+  const [recording, setRecording] = useState<{ action: KeyAction; index?: number } | null>(null);
+  const conflicts = keymapConflicts(keymap);
+
+  // Listens before the game's own handler so the pressed key only becomes a binding
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const combo = keyCombo(event);
+      if (!combo) return;
+      if (combo !== "Escape") bind(recording.action, combo, recording.index);
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [recording, bind]);
+
+  const labelOf = (action: KeyAction) => KEY_ACTIONS.find(entry => entry.action === action)?.label ?? action;
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/40 z-10">
+      <div className="bg-black bg-opacity-75 text-white p-4 rounded text-sm max-h-full overflow-y-auto">
+        <div className="flex justify-between gap-4">
+          <strong>Key Bindings</strong>
+          <button className="bg-white/20 rounded px-2" onClick={onClose}>Close</button>
+        </div>
+        <div className="mt-1 text-xs">
+          {recording ? `Press a key for "${labelOf(recording.action)}", Esc to cancel` : "Click a key to change it"}
+        </div>
+        {conflicts.size > 0 && (
+          <div className="mt-1 text-xs text-red-300">
+            Keys bound to more than one action do nothing until the conflict is fixed
+          </div>
+        )}
+        <table className="mt-2">
+          <tbody>
+            {KEY_ACTIONS.map(({ action, label }) => (
+              <tr key={action}>
+                <td className="pr-4">{label}</td>
+                <td className="flex flex-wrap gap-1 py-0.5">
+                  {keymap[action].map((combo, index) => {
+                    const shared = conflicts.get(combo);
+                    const waiting = recording?.action === action && recording.index === index;
+                    return (
+                      <span key={combo} className={`rounded px-1 ${shared ? "bg-red-500/60" : "bg-white/20"}`}>
+                        <button
+                          title={shared ? `Also: ${shared.filter(other => other !== action).map(labelOf).join(", ")}` : undefined}
+                          onClick={() => setRecording({ action, index })}
+                        >
+                          {waiting ? "…" : formatCombo(combo)}
+                        </button>
+                        <button className="ml-1" aria-label={`Unbind ${formatCombo(combo)}`} onClick={() => unbind(action, index)}>
+                          ×
+                        </button>
+                      </span>
+                    );
+                  })}
+                  <button className="bg-white/10 rounded px-1" onClick={() => setRecording({ action })}>
+                    {recording?.action === action && recording.index === undefined ? "…" : "+"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button className="mt-2 bg-white/20 rounded px-2" onClick={restoreDefaults}>
+          Restore defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { create } from "zustand";
+import {
+  bindKey,
+  DEFAULT_KEYMAP,
+  loadKeymap,
+  saveKeymap,
+  unbindKey,
+  type KeyAction,
+  type Keymap,
+} from "../lib/keymap";
+
+// Key bindings store
+interface KeymapState {
+  keymap: Keymap;
+  load: () => void;
+  // Binds a key, replacing the action's binding at index or adding one without it
+  bind: (action: KeyAction, combo: string, index?: number) => void;
+  unbind: (action: KeyAction, index: number) => void;
+  restoreDefaults: () => void;
+}
+
+export const useKeymapStore = create<KeymapState>()(set => ({
+  keymap: DEFAULT_KEYMAP,
+
+  load: () => {
+    set({ keymap: loadKeymap() });
+  },
+
+  bind: (action: KeyAction, combo: string, index?: number) => {
+    set(state => ({ keymap: bindKey(state.keymap, action, combo, index) }));
+    saveKeymap(useKeymapStore.getState().keymap);
+  },
+
+  unbind: (action: KeyAction, index: number) => {
+    set(state => ({ keymap: unbindKey(state.keymap, action, index) }));
+    saveKeymap(useKeymapStore.getState().keymap);
+  },
+
+  restoreDefaults: () => {
+    set({ keymap: DEFAULT_KEYMAP });
+    saveKeymap(DEFAULT_KEYMAP);
+  },
+}));
@@ -0,0 +1,44 @@
+import { REPLAY_SPEEDS, useReplayStore } from "./replayStore";
+
+// Replay Controls Component
+export function ReplayControls() {
+  const { replay, frames, index, playing, speed, seek, setPlaying, setSpeed, close } = useReplayStore();
+  if (!replay || !frames) return null;
+
+  const frame = frames[index];
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-50 text-white p-4 rounded text-sm w-96">
+      <div className="flex justify-between">
+        <span><strong>Replay</strong> · seed {replay.seed}</span>
+        <span>Score: {frame.state.score}</span>
+      </div>
+      <input
+        type="range"
+        className="w-full mt-2"
+        min={0}
+        max={frames.length - 1}
+        value={index}
+        onChange={(event) => seek(Number(event.target.value))}
+      />
+      <div className="flex gap-2 items-center mt-2">
+        <button className="bg-white/20 rounded px-2" onClick={() => setPlaying(!playing)}>
+          {playing ? "Pause" : "Play"}
+        </button>
+        <button className="bg-white/20 rounded px-2" onClick={() => seek(index - 1)}>◀</button>
+        <button className="bg-white/20 rounded px-2" onClick={() => seek(index + 1)}>▶</button>
+        <select
+          className="bg-white/10 rounded px-1"
+          value={speed}
+          onChange={(event) => setSpeed(Number(event.target.value))}
+        >
+          {REPLAY_SPEEDS.map(option => (
+            <option key={option} value={option} className="text-black">{option}×</option>
+          ))}
+        </select>
+        <span className="flex-1 text-right">Move {index}/{frames.length - 1}</span>
+        <button className="bg-white/20 rounded px-2" onClick={close}>Exit</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { create } from "zustand";
+import { replayFrames, type Replay, type ReplayFrame } from "../lib/replay";
+
+// Replay playback store
+interface ReplayState {
+  replay: Replay | null;
+  frames: ReplayFrame[] | null;
+  index: number;
+  playing: boolean;
+  // Actions per second
+  speed: number;
+  elapsed: number;
+  open: (replay: Replay) => void;
+  close: () => void;
+  seek: (index: number) => void;
+  setPlaying: (playing: boolean) => void;
+  setSpeed: (speed: number) => void;
+  advance: (delta: number) => void;
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+export const useReplayStore = create<ReplayState>()((set, get) => ({
+  replay: null,
+  frames: null,
+  index: 0,
+  playing: false,
+  speed: 2,
+  elapsed: 0,
+
+  open: (replay: Replay) => {
+    set({ replay, frames: replayFrames(replay), index: 0, playing: true, elapsed: 0 });
+  },
+
+  close: () => {
+    set({ replay: null, frames: null, index: 0, playing: false, elapsed: 0 });
+  },
+
+  seek: (index: number) => {
+    const { frames } = get();
+    if (!frames) return;
+    set({ index: Math.max(0, Math.min(frames.length - 1, index)), elapsed: 0 });
+  },
+
+  setPlaying: (playing: boolean) => {
+    const { frames, index } = get();
+    // Playing from the last frame starts over
+    if (playing && frames && index === frames.length - 1) {
+      set({ index: 0 });
+    }
+    set({ playing, elapsed: 0 });
+  },
+
+  setSpeed: (speed: number) => {
+    set({ speed });
+  },
+
+  advance: (delta: number) => {
+    const { frames, index, playing, speed, elapsed } = get();
+    if (!frames || !playing) return;
+
+    const total = elapsed + delta * speed;
+    const steps = Math.floor(total);
+    if (steps === 0) {
+      set({ elapsed: total });
+      return;
+    }
+    const next = Math.min(frames.length - 1, index + steps);
+    set({ index: next, elapsed: total - steps, playing: next < frames.length - 1 });
+  },
+}));
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { parseGame, SaveError, serializeGame } from "../lib/persistence";
+import { decodeReplay, encodeReplay, ReplayError } from "../lib/replay";
+import { replayOf, snapshot, useGameStore } from "./gameStore";
+import { useReplayStore } from "./replayStore";
+import { useRacing } from "./versusStore";
+import { downloadFile, ImportButton } from "./files";
+
+// Seed Panel Component
+export function SeedPanel() {
+  const { rng, reset, startDailyChallenge } = useGameStore();
+  const racing = useRacing();
+  const [seedInput, setSeedInput] = useState("");
+
+  return (
+    <div className="absolute top-4 left-4 bg-black bg-opacity-50 text-white p-4 rounded text-sm">
+      <div>
+        <strong>Seed:</strong> <span className="font-mono select-all">{rng.seed}</span>
+      </div>
+      <form
+        className="flex gap-2 mt-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (seedInput.trim() && !racing) reset(seedInput.trim());
+        }}
+      >
+        <input
+          className="bg-white/10 rounded px-2 py-1 w-32"
+          placeholder="Enter seed"
+          value={seedInput}
+          onChange={(event) => setSeedInput(event.target.value)}
+        />
+        <button type="submit" className="bg-white/20 rounded px-2" disabled={racing}>Play</button>
+        <button type="button" className="bg-white/20 rounded px-2" disabled={racing} onClick={startDailyChallenge}>
+          Daily
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// Save Panel Component
+export function SavePanel() {
+  const loadGame = useGameStore(state => state.loadGame);
+  const replayable = useGameStore(state => state.actions !== null);
+  const openReplay = useReplayStore(state => state.open);
+  const racing = useRacing();
+  const [importText, setImportText] = useState("");
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  // Accepts either a saved game as JSON or a replay string
+  const importGame = (text: string) => {
+    try {
+      if (text.trim().startsWith("{")) {
+        if (racing) {
+          setMessage({ text: "Finish the race before loading a game", error: true });
+          return;
+        }
+        loadGame(parseGame(text));
+        setMessage({ text: "Game loaded", error: false });
+      } else {
+        openReplay(decodeReplay(text));
+        setMessage(null);
+      }
+      setImportText("");
+    } catch (error) {
+      if (!(error instanceof SaveError) && !(error instanceof ReplayError)) throw error;
+      setMessage({ text: error.message, error: true });
+    }
+  };
+
+  const watchReplay = () => {
+    const replay = replayOf(useGameStore.getState());
+    if (replay) openReplay(replay);
+  };
+
+  const copyReplay = async () => {
+    const replay = replayOf(useGameStore.getState());
+    if (!replay) return;
+    let text: string;
+    try {
+      text = encodeReplay(replay);
+    } catch (error) {
+      if (!(error instanceof ReplayError)) throw error;
+      setMessage({ text: error.message, error: true });
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(text);
+      setMessage({ text: "Replay copied to clipboard", error: false });
+    } catch {
+      setMessage({ text: "Clipboard is not available", error: true });
+    }
+  };
+
+  const exportFile = () => {
+    const game = useGameStore.getState();
+    downloadFile(`5d2048-${game.rng.seed}.json`, serializeGame(snapshot(game)), "application/json");
+  };
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeGame(snapshot(useGameStore.getState())));
+      setMessage({ text: "Save copied to clipboard", error: false });
+    } catch {
+      setMessage({ text: "Clipboard is not available", error: true });
+    }
+  };
+
+  return (
+    <div className="absolute top-4 right-4 bg-black bg-opacity-50 text-white p-4 rounded text-sm w-64">
+      <div><strong>Save &amp; Replay</strong></div>
+      <div className="flex gap-2 mt-2">
+        <button className="bg-white/20 rounded px-2" onClick={exportFile}>Export</button>
+        <button className="bg-white/20 rounded px-2" onClick={copyToClipboard}>Copy</button>
+        <ImportButton label="Import" onImport={importGame} />
+      </div>
+      <div className="flex gap-2 mt-2">
+        <button className="bg-white/20 rounded px-2" disabled={!replayable} onClick={watchReplay}>
+          Watch Replay
+        </button>
+        <button className="bg-white/20 rounded px-2" disabled={!replayable} onClick={copyReplay}>
+          Share Replay
+        </button>
+      </div>
+      <textarea
+        className="bg-white/10 rounded px-2 py-1 mt-2 w-full h-16 font-mono text-xs"
+        placeholder="Paste a saved game or replay"
+        value={importText}
+        onChange={(event) => setImportText(event.target.value)}
+      />
+      <button
+        className="bg-white/20 rounded px-2"
+        disabled={!importText.trim()}
+        onClick={() => importGame(importText)}
+      >
+        Load
+      </button>
+      {message && (
+        <div className={message.error ? "text-red-300 mt-2" : "text-green-300 mt-2"}>{message.text}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import type { SolverStrategy } from "../lib/solver";
+import { useCurrentHint, useSolverAllowed, useSolverStore } from "./solverStore";
+
+// Solver Panel Component
+const SOLVER_DEPTHS: Record<SolverStrategy, number[]> = {
+  expectimax: [1, 2, 3, 4],
+  'monte-carlo': [5, 10, 20, 40],
+};
+
+export function SolverPanel() {
+  const { options, speed, autoplay, thinking, setOptions, setSpeed, setAutoplay, requestHint } = useSolverStore();
+  const hint = useCurrentHint();
+  const allowed = useSolverAllowed();
+
+  return (
+    <div className="absolute top-36 left-4 bg-black bg-opacity-50 text-white p-4 rounded text-sm">
+      <div><strong>Solver</strong></div>
+      <div className="flex gap-2 mt-2">
+        <button className="bg-white/20 rounded px-2" disabled={thinking || !allowed} onClick={requestHint}>
+          Hint
+        </button>
+        <button className="bg-white/20 rounded px-2" disabled={!autoplay && !allowed} onClick={() => setAutoplay(!autoplay)}>
+          {autoplay ? "Stop" : "Autoplay"}
+        </button>
+        <span>{thinking ? "Thinking…" : hint ? `Try ${hint}` : ""}</span>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <select
+          className="bg-white/10 rounded"
+          value={options.strategy}
+          onChange={(event) => {
+            const strategy = event.target.value as SolverStrategy;
+            setOptions({ strategy, depth: SOLVER_DEPTHS[strategy][1] });
+          }}
+        >
+          <option value="expectimax">Expectimax</option>
+          <option value="monte-carlo">Monte-Carlo</option>
+        </select>
+        <label>
+          Depth{" "}
+          <select
+            className="bg-white/10 rounded"
+            value={options.depth}
+            onChange={(event) => setOptions({ depth: Number(event.target.value) })}
+          >
+            {SOLVER_DEPTHS[options.strategy].map(depth => (
+              <option key={depth} value={depth}>{depth}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="flex gap-2 mt-2 items-center">
+        Speed
+        <input
+          type="range"
+          min={1}
+          max={20}
+          value={speed}
+          onChange={(event) => setSpeed(Number(event.target.value))}
+        />
+        {speed}/s
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { create } from "zustand";
+import { useShallow } from "zustand/react/shallow";
+import type { Direction, EngineState } from "../lib/engine";
+import type { Board } from "../lib/board";
+import { DEFAULT_SOLVER_OPTIONS, type SolverOptions, type Suggestion } from "../lib/solver";
+import type { SolverRequest, SolverResponse } from "../lib/solver.worker";
+import { engineState, useGameStore } from "./gameStore";
+import { useVersusStore } from "./versusStore";
+
+// Solver store: hints and autoplay, with the search running in a worker
+interface SolverState {
+  options: SolverOptions;
+  // Moves per second while autoplaying
+  speed: number;
+  autoplay: boolean;
+  thinking: boolean;
+  // Last suggestion and the position it was made for; it only applies while that position is showing
+  hint: { direction: Direction | null; board: Board; currentLayer: number } | null;
+  elapsed: number;
+  setOptions: (options: Partial<SolverOptions>) => void;
+  setSpeed: (speed: number) => void;
+  setAutoplay: (autoplay: boolean) => void;
+  requestHint: () => Promise<void>;
+  advance: (delta: number) => void;
+}
+
+// Started on first use; requests are answered in order, each tagged with its id.
+// A worker that fails is dropped, failing every request it had, and the next request starts a new one.
+let solverWorker: Worker | null = null;
+let solverRequestId = 0;
+
+function askSolver(state: EngineState, options: SolverOptions): Promise<Suggestion> {
+  const worker = solverWorker ?? new Worker(new URL("../lib/solver.worker.ts", import.meta.url));
+  solverWorker = worker;
+  const request: SolverRequest = { id: ++solverRequestId, state, options };
+
+  return new Promise((resolve, reject) => {
+    const settle = () => {
+      worker.removeEventListener("message", onMessage);
+      worker.removeEventListener("error", onError);
+      worker.removeEventListener("messageerror", onError);
+    };
+    const onMessage = (event: MessageEvent<SolverResponse>) => {
+      if (event.data.id !== request.id) return;
+      settle();
+      resolve(event.data);
+    };
+    const onError = () => {
+      settle();
+      if (solverWorker === worker) {
+        worker.terminate();
+        solverWorker = null;
+      }
+      reject(new Error("The solver stopped working"));
+    };
+    worker.addEventListener("message", onMessage);
+    worker.addEventListener("error", onError);
+    worker.addEventListener("messageerror", onError);
+    worker.postMessage(request);
+  });
+}
+
+// The solver stays out of races and challenges, where the player's own play counts
+function solverAllowed(): boolean {
+  return useVersusStore.getState().status !== 'racing' && useGameStore.getState().challenge === null;
+}
+
+export const useSolverStore = create<SolverState>()((set, get) => ({
+  options: DEFAULT_SOLVER_OPTIONS,
+  speed: 4,
+  autoplay: false,
+  thinking: false,
+  hint: null,
+  elapsed: 0,
+
+  setOptions: (options: Partial<SolverOptions>) => {
+    set({ options: { ...get().options, ...options }, hint: null });
+  },
+
+  setSpeed: (speed: number) => {
+    set({ speed });
+  },
+
+  setAutoplay: (autoplay: boolean) => {
+    if (autoplay && !solverAllowed()) return;
+    set({ autoplay, elapsed: 0 });
+  },
+
+  requestHint: async () => {
+    if (get().thinking || !solverAllowed()) return;
+    const state = engineState(useGameStore.getState());
+    set({ thinking: true, hint: null });
+    try {
+      const { direction } = await askSolver(state, get().options);
+      set({ hint: { direction, board: state.board, currentLayer: state.currentLayer } });
+    } catch {
+      // No hint this time; the next request starts a fresh worker
+    } finally {
+      set({ thinking: false });
+    }
+  },
+
+  // Plays the solver's move whenever the game is waiting for input and the speed allows
+  advance: (delta: number) => {
+    const { autoplay, thinking, speed, elapsed, options } = get();
+    if (!autoplay || thinking) return;
+    if (elapsed + delta < 1 / speed) {
+      set({ elapsed: elapsed + delta });
+      return;
+    }
+
+    const game = useGameStore.getState();
+    if (game.gameOver || (game.gameWon && !game.keepPlaying) || !solverAllowed()) {
+      set({ autoplay: false });
+      return;
+    }
+    if (game.turnPhase !== 'input') return;
+
+    const state = engineState(game);
+    set({ thinking: true, elapsed: 0 });
+    askSolver(state, options).then(({ direction }) => {
+      set({ thinking: false });
+      // The player may have moved or stopped autoplay while the solver was searching
+      if (!get().autoplay || useGameStore.getState().board !== state.board) return;
+      if (direction === null) {
+        set({ autoplay: false });
+      } else {
+        useGameStore.getState().move(direction);
+      }
+    }, () => {
+      set({ thinking: false, autoplay: false });
+    });
+  },
+}));
+
+export function useSolverAllowed(): boolean {
+  const racing = useVersusStore(state => state.status === 'racing');
+  const inChallenge = useGameStore(state => state.challenge !== null);
+  return !racing && !inChallenge;
+}
+
+// The current hint, if it was made for the position on the board
+export function useCurrentHint(): Direction | null {
+  const hint = useSolverStore(state => state.hint);
+  const { board, currentLayer } = useGameStore(useShallow(state => ({ board: state.board, currentLayer: state.currentLayer })));
+  return hint && hint.board === board && hint.currentLayer === currentLayer ? hint.direction : null;
+}
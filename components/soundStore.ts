@@ -0,0 +1,27 @@
+import { create } from "zustand";
+import {
+  DEFAULT_SOUND_SETTINGS,
+  loadSoundSettings,
+  saveSoundSettings,
+  type SoundSettings,
+} from "../lib/audio";
+
+// Sound and vibration settings store
+interface SoundState {
+  settings: SoundSettings;
+  load: () => void;
+  update: (settings: Partial<SoundSettings>) => void;
+}
+
+export const useSoundStore = create<SoundState>()(set => ({
+  settings: DEFAULT_SOUND_SETTINGS,
+
+  load: () => {
+    set({ settings: loadSoundSettings() });
+  },
+
+  update: (settings: Partial<SoundSettings>) => {
+    set(state => ({ settings: { ...state.settings, ...settings } }));
+    saveSoundSettings(useSoundStore.getState().settings);
+  },
+}));
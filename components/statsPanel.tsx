@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { WIN_VALUE } from "../lib/engine";
+import { tileColor } from "../lib/theme";
+import {
+  configLabel,
+  formatDuration,
+  leaderboardToCsv,
+  serializeStats,
+  statsToCsv,
+  winRate,
+} from "../lib/stats";
+import { useStatsStore } from "./statsStore";
+import { useThemeStore } from "./themeStore";
+import { downloadFile } from "./files";
+
+// Stats Panel Component
+export function StatsPanel() {
+  const { file, clear } = useStatsStore();
+  const theme = useThemeStore(state => state.theme);
+  const [open, setOpen] = useState(false);
+  const { leaderboard, stats } = file;
+  const bestTiles = Object.keys(stats.bestTiles).map(Number).sort((a, b) => b - a);
+  const mostCommon = Math.max(1, ...Object.values(stats.bestTiles));
+
+  if (!open) {
+    return (
+      <button
+        className="text-sm px-2 [writing-mode:vertical-rl]"
+        style={{ background: theme.button, color: theme.buttonText }}
+        onClick={() => setOpen(true)}
+      >
+        Statistics
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-80 h-full overflow-y-auto p-4 text-sm" style={{ background: theme.layerBase, color: theme.text }}>
+      <div className="flex justify-between">
+        <strong>Statistics</strong>
+        <button className="bg-white/20 rounded px-2" onClick={() => setOpen(false)}>Close</button>
+      </div>
+      <div className="mt-2">Games played: {stats.gamesPlayed}</div>
+      <div>Win rate: {Math.round(winRate(stats) * 100)}%</div>
+
+      <div className="mt-2"><strong>Best tiles</strong></div>
+      {bestTiles.length === 0 && <div>No finished games yet</div>}
+      {bestTiles.map(tile => (
+        <div key={tile} className="flex items-center gap-2">
+          <span className="w-14 text-right">{tile}</span>
+          <div
+            className="h-3 rounded"
+            style={{ background: tileColor(theme, WIN_VALUE), width: `${(stats.bestTiles[tile] / mostCommon) * 60}%` }}
+          />
+          <span>{stats.bestTiles[tile]}</span>
+        </div>
+      ))}
+
+      <div className="mt-2"><strong>High scores</strong></div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left">
+            <th>#</th>
+            <th>Score</th>
+            <th>Tile</th>
+            <th>Moves</th>
+            <th>Time</th>
+            <th>Board</th>
+          </tr>
+        </thead>
+        <tbody>
+          {leaderboard.map((record, index) => (
+            <tr key={`${record.date}-${index}`} title={`${new Date(record.date).toLocaleString()} · seed ${record.seed}`}>
+              <td>{index + 1}</td>
+              <td>{record.score}</td>
+              <td>{record.maxTile}</td>
+              <td>{record.moves}</td>
+              <td>{formatDuration(record.duration)}</td>
+              <td>{configLabel(record.config, record.layerMode)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap gap-2 mt-2">
+        <button
+          className="bg-white/20 rounded px-2"
+          onClick={() => downloadFile("5d2048-stats.json", serializeStats(file), "application/json")}
+        >
+          JSON
+        </button>
+        <button
+          className="bg-white/20 rounded px-2"
+          onClick={() => downloadFile("5d2048-leaderboard.csv", leaderboardToCsv(leaderboard), "text/csv")}
+        >
+          Scores CSV
+        </button>
+        <button
+          className="bg-white/20 rounded px-2"
+          onClick={() => downloadFile("5d2048-stats.csv", statsToCsv(stats), "text/csv")}
+        >
+          Stats CSV
+        </button>
+        <button
+          className="bg-white/20 rounded px-2"
+          onClick={() => {
+            if (window.confirm("Clear all scores and statistics?")) clear();
+          }}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { create } from "zustand";
+import {
+  emptyStats,
+  loadStats,
+  recordGame,
+  saveStats,
+  type GameRecord,
+  type StatsFile,
+} from "../lib/stats";
+
+// Leaderboard and lifetime statistics store
+interface StatsState {
+  file: StatsFile;
+  load: () => void;
+  record: (record: GameRecord) => void;
+  clear: () => void;
+}
+
+export const useStatsStore = create<StatsState>()(set => ({
+  file: emptyStats(),
+
+  load: () => {
+    set({ file: loadStats() });
+  },
+
+  record: (record: GameRecord) => {
+    set(state => ({ file: recordGame(state.file, record) }));
+    saveStats(useStatsStore.getState().file);
+  },
+
+  clear: () => {
+    set({ file: emptyStats() });
+    saveStats(emptyStats());
+  },
+}));
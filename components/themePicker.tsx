@@ -0,0 +1,42 @@
+import { useState } from "react";
+import { parseThemes, THEMES, ThemeError } from "../lib/theme";
+import { useThemeStore } from "./themeStore";
+import { ImportButton } from "./files";
+
+// Theme Picker Component: switches themes live, without touching the game
+export function ThemePicker() {
+  const { theme, customThemes, select, importThemes } = useThemeStore();
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const importFile = (text: string) => {
+    try {
+      const imported = parseThemes(text);
+      importThemes(imported);
+      setMessage({ text: `Imported ${imported.length} ${imported.length === 1 ? "theme" : "themes"}`, error: false });
+    } catch (error) {
+      if (!(error instanceof ThemeError)) throw error;
+      setMessage({ text: error.message, error: true });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex gap-2 mt-2 items-center">
+        <select
+          className="bg-white/20 rounded px-2"
+          aria-label="Theme"
+          value={theme.id}
+          onChange={(event) => select(event.target.value)}
+        >
+          {[...THEMES, ...customThemes].map(option => (
+            <option key={option.id} value={option.id} className="text-black">{option.name}</option>
+          ))}
+        </select>
+        <ImportButton label="Import theme" onImport={importFile} />
+      </div>
+      {message && (
+        <div className={`mt-1 ${message.error ? "text-red-300" : "text-green-300"}`}>{message.text}</div>
+      )}
+    </>
+  );
+}
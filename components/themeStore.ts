@@ -0,0 +1,54 @@
+import { create } from "zustand";
+import {
+  CLASSIC_THEME,
+  loadThemes,
+  saveThemes,
+  THEME_VERSION,
+  THEMES,
+  type Theme,
+} from "../lib/theme";
+
+// Theme store: the theme in use and the ones the player imported
+interface ThemeState {
+  theme: Theme;
+  customThemes: Theme[];
+  load: () => void;
+  select: (id: string) => void;
+  // Adds themes, replacing imported ones with the same id, and switches to the first
+  importThemes: (themes: Theme[]) => void;
+}
+
+function findTheme(id: string, customThemes: Theme[]): Theme {
+  return [...THEMES, ...customThemes].find(theme => theme.id === id) ?? CLASSIC_THEME;
+}
+
+export const useThemeStore = create<ThemeState>()((set, get) => {
+  const save = () => {
+    const { theme, customThemes } = get();
+    saveThemes({ version: THEME_VERSION, selected: theme.id, custom: customThemes });
+  };
+
+  return {
+    theme: CLASSIC_THEME,
+    customThemes: [],
+
+    load: () => {
+      const file = loadThemes();
+      set({ theme: findTheme(file.selected, file.custom), customThemes: file.custom });
+    },
+
+    select: (id: string) => {
+      set(state => ({ theme: findTheme(id, state.customThemes) }));
+      save();
+    },
+
+    importThemes: (themes: Theme[]) => {
+      const ids = new Set(themes.map(theme => theme.id));
+      set(state => ({
+        customThemes: [...state.customThemes.filter(theme => !ids.has(theme.id)), ...themes],
+        theme: themes[0],
+      }));
+      save();
+    },
+  };
+});
@@ -0,0 +1,22 @@
+import { MULTIPLIER_FACTOR, specialTile, type SpecialTile } from "../lib/engine";
+
+// Special tiles stand out by their surface as well as their colour, which comes from the theme
+export const SPECIAL_TILES: Record<SpecialTile, {
+  label: string;
+  material: { roughness?: number; metalness?: number; iridescence?: number; emissive?: string; emissiveIntensity?: number };
+}> = {
+  blocker: { label: "X", material: { roughness: 0.9, metalness: 0 } },
+  wildcard: { label: "Wild", material: { iridescence: 1 } },
+  multiplier: { label: `×${MULTIPLIER_FACTOR}`, material: { roughness: 0.3, metalness: 0.8 } },
+  bomb: { label: "Bomb", material: { emissive: "#ff3d00", emissiveIntensity: 0.4 } },
+};
+
+export function getTileLabel(value: number): string {
+  const special = specialTile(value);
+  return special ? SPECIAL_TILES[special].label : String(value);
+}
+
+// Shrinks the label with its digit count so it always fits the tile
+export function getTileFontSize(value: number): number {
+  return Math.min(0.35, 1 / getTileLabel(value).length);
+}
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { DEFAULT_RELAY_URL } from "../lib/versus";
+import { useGameStore } from "./gameStore";
+import { useVersusStore, type VersusStatus } from "./versusStore";
+
+// Versus Panel Component
+const VERSUS_STATUS: Record<VersusStatus, string> = {
+  offline: "",
+  connecting: "Connecting…",
+  waiting: "Waiting for an opponent",
+  racing: "Racing!",
+  won: "You won the race!",
+  lost: "You lost the race",
+};
+
+export function VersusPanel() {
+  const { status, error, host, garbage, opponent, setGarbage, join, leave } = useVersusStore();
+  const target = useGameStore(state => state.target);
+  const [url, setUrl] = useState(DEFAULT_RELAY_URL);
+  const [room, setRoom] = useState("");
+  const connected = status !== 'offline';
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-50 text-white p-4 rounded text-sm">
+      <div><strong>Versus</strong></div>
+      {connected ? (
+        <div className="flex gap-2 mt-2 items-center">
+          <span>{VERSUS_STATUS[status]}{status === 'racing' && ` First to ${target} wins.`}</span>
+          <button className="bg-white/20 rounded px-2" onClick={leave}>Leave</button>
+        </div>
+      ) : (
+        <div className="flex gap-2 mt-2">
+          <input
+            className="bg-white/10 rounded px-1 w-40"
+            aria-label="Relay address"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+          />
+          <input
+            className="bg-white/10 rounded px-1 w-24"
+            aria-label="Room"
+            placeholder="Room"
+            value={room}
+            onChange={(event) => setRoom(event.target.value)}
+          />
+          <button className="bg-white/20 rounded px-2" disabled={!room.trim()} onClick={() => join(url, room.trim())}>
+            Join
+          </button>
+        </div>
+      )}
+      <label className="flex gap-2 mt-2 items-center">
+        {/* The host deals the rules along with the board */}
+        <input
+          type="checkbox"
+          checked={garbage}
+          disabled={connected && (!host || status !== 'waiting')}
+          onChange={(event) => setGarbage(event.target.checked)}
+        />
+        Garbage: big merges drop blockers on the opponent
+      </label>
+      {opponent && <div className="mt-2">Opponent score: {opponent.score}</div>}
+      {error && <div className="mt-2 text-red-300">{error}</div>}
+    </div>
+  );
+}
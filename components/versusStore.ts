@@ -0,0 +1,171 @@
+import { create } from "zustand";
+import { WIN_VALUE } from "../lib/engine";
+import { randomSeed } from "../lib/rng";
+import {
+  garbageFor,
+  parseMessage,
+  validatePeerMessage,
+  type BoardMirror,
+  type ClientMessage,
+  type ServerMessage,
+  type StartMessage,
+} from "../lib/versus";
+import { mergedValues, useGameStore, type GameState } from "./gameStore";
+
+// Versus store: a race against another browser through the relay
+export type VersusStatus = 'offline' | 'connecting' | 'waiting' | 'racing' | 'won' | 'lost';
+
+interface VersusState {
+  status: VersusStatus;
+  error: string | null;
+  // The first player in the room, who picks the board and rules
+  host: boolean;
+  // Big merges drop blockers on the opponent
+  garbage: boolean;
+  opponent: BoardMirror | null;
+  setGarbage: (garbage: boolean) => void;
+  join: (url: string, room: string) => void;
+  leave: () => void;
+}
+
+function mirrorOf(state: GameState): BoardMirror {
+  const { board, currentLayer, score, gameOver, gameWon } = state;
+  return { board, currentLayer, score, gameOver, won: gameWon };
+}
+
+export const useVersusStore = create<VersusState>()((set, get) => {
+  let socket: WebSocket | null = null;
+  // Stops sending the local board to the opponent
+  let stopMirroring = () => {};
+
+  const sendMessage = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  // Sends the opponent every change of board and the garbage from every big merge,
+  // and ends the race when this game is won or lost
+  const mirror = () => {
+    stopMirroring();
+    sendMessage({ type: 'board', mirror: mirrorOf(useGameStore.getState()) });
+    stopMirroring = useGameStore.subscribe((next, previous) => {
+      if (next.board !== previous.board || next.currentLayer !== previous.currentLayer || next.gameOver !== previous.gameOver) {
+        sendMessage({ type: 'board', mirror: mirrorOf(next) });
+      }
+      if (get().garbage && next.score > previous.score) {
+        const blockers = garbageFor(mergedValues(next));
+        if (blockers > 0) sendMessage({ type: 'garbage', blockers });
+      }
+      if (get().status !== 'racing') return;
+      if (next.gameWon) {
+        set({ status: 'won' });
+      } else if (next.gameOver) {
+        set({ status: 'lost' });
+      }
+    });
+  };
+
+  const startRace = (start: StartMessage) => {
+    set({ status: 'racing', garbage: start.garbage, opponent: null, error: null });
+    useGameStore.getState().startMatch(start.config, start.layerMode, start.seed, start.target);
+    mirror();
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        set({ host: message.host, status: 'waiting' });
+        break;
+      case 'peer-joined': {
+        if (!get().host) break;
+        // The host deals the race from its own settings
+        const { config, layerMode, target } = useGameStore.getState();
+        const start = { type: 'start' as const, config, layerMode, seed: randomSeed(), target: target ?? WIN_VALUE, garbage: get().garbage };
+        sendMessage(start);
+        startRace(start);
+        break;
+      }
+      case 'peer-left':
+        stopMirroring();
+        // Whoever stays behind deals the next race
+        set({ status: 'waiting', host: true, opponent: null, error: "Your opponent left" });
+        break;
+      case 'error':
+        set({ error: message.message });
+        get().leave();
+        break;
+      case 'start':
+        startRace(message);
+        break;
+      case 'board': {
+        const { mirror } = message;
+        set({ opponent: mirror });
+        if (get().status !== 'racing') break;
+        if (mirror.won) {
+          set({ status: 'lost' });
+        } else if (mirror.gameOver) {
+          set({ status: 'won' });
+        }
+        break;
+      }
+      case 'garbage':
+        if (get().status === 'racing' && get().garbage) useGameStore.getState().receiveGarbage(message.blockers);
+        break;
+    }
+  };
+
+  return {
+    status: 'offline',
+    error: null,
+    host: false,
+    garbage: true,
+    opponent: null,
+
+    setGarbage: (garbage: boolean) => {
+      set({ garbage });
+    },
+
+    join: (url: string, room: string) => {
+      get().leave();
+      let connection: WebSocket;
+      try {
+        connection = new WebSocket(url);
+      } catch {
+        set({ error: "That isn't a relay address" });
+        return;
+      }
+      socket = connection;
+      set({ status: 'connecting', error: null });
+
+      connection.onopen = () => sendMessage({ type: 'join', room });
+      connection.onmessage = (event) => {
+        const message = parseMessage<ServerMessage>(String(event.data));
+        const valid = message && validatePeerMessage(message, useGameStore.getState().config);
+        if (valid) handleMessage(valid);
+      };
+      connection.onclose = () => {
+        if (socket !== connection) return;
+        socket = null;
+        stopMirroring();
+        set(state => ({
+          status: 'offline',
+          opponent: null,
+          error: state.error ?? (state.status === 'connecting' ? "Couldn't reach the relay" : "Lost the connection to the relay"),
+        }));
+      };
+    },
+
+    leave: () => {
+      const connection = socket;
+      socket = null;
+      stopMirroring();
+      connection?.close();
+      set({ status: 'offline', opponent: null });
+    },
+  };
+});
+
+// Starting another game mid-race would leave the two boards apart, so everything that
+// does is switched off until the race is over
+export function useRacing(): boolean {
+  return useVersusStore(state => state.status === 'racing');
+}
@@ -0,0 +1,143 @@
+// Sound effects and vibration for game events. Every sound is synthesized with WebAudio,
+// so there is nothing to download and it all works offline.
+
+import type { GameEvent } from "./events";
+import { isRecord, readStored, writeStored } from "./storage";
+
+export interface SoundSettings {
+  // 0 to 1
+  volume: number;
+  muted: boolean;
+  // Vibrate on devices that can; sound and vibration are switched separately
+  haptics: boolean;
+}
+
+export interface SoundFile {
+  version: number;
+  settings: SoundSettings;
+}
+
+export const SOUND_VERSION = 1;
+export const SOUND_STORAGE_KEY = "5d2048:sound";
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = { volume: 0.5, muted: false, haptics: true };
+
+// A synthesized note. Start and duration are in seconds from the event.
+export interface Tone {
+  frequency: number;
+  start: number;
+  duration: number;
+  // Loudness relative to the others, before the volume setting
+  gain: number;
+  wave: OscillatorType;
+}
+
+// Merging two 2s sounds at the base pitch; every doubling of the tile goes up a whole tone
+const MERGE_BASE_FREQUENCY = 220;
+const SEMITONES_PER_DOUBLING = 2;
+
+// Keeps full volume with a few notes at once well clear of clipping
+const MASTER_GAIN = 0.3;
+// Fade in and out so notes start and stop without a click
+const ATTACK = 0.005;
+const SILENT = 0.0001;
+
+export function mergeFrequency(value: number): number {
+  return MERGE_BASE_FREQUENCY * 2 ** (((Math.log2(value) - 2) * SEMITONES_PER_DOUBLING) / 12);
+}
+
+function arpeggio(frequencies: number[], step: number, duration: number, wave: OscillatorType): Tone[] {
+  return frequencies.map((frequency, i) => ({ frequency, start: i * step, duration, gain: 0.5, wave }));
+}
+
+export function eventTones(event: GameEvent): Tone[] {
+  switch (event.type) {
+    case 'slide':
+      return [{ frequency: 140, start: 0, duration: 0.06, gain: 0.25, wave: 'triangle' }];
+    case 'merge': {
+      const frequency = mergeFrequency(event.value);
+      return [
+        { frequency, start: 0, duration: 0.14, gain: 0.6, wave: 'sine' },
+        { frequency: frequency * 2, start: 0, duration: 0.08, gain: 0.15, wave: 'sine' },
+      ];
+    }
+    case 'spawn':
+      return [{ frequency: 880, start: 0.02, duration: 0.04, gain: 0.12, wave: 'sine' }];
+    case 'layer-change':
+      return arpeggio([330, 440], 0.05, 0.06, 'square').map(tone => ({ ...tone, gain: 0.12 }));
+    case 'win':
+      return arpeggio([523.25, 659.25, 783.99, 1046.5], 0.1, 0.25, 'triangle');
+    case 'game-over':
+      return arpeggio([392, 329.63, 261.63], 0.15, 0.3, 'triangle');
+  }
+}
+
+// Vibration in milliseconds (on, off, on…), or null for events too small to feel
+export function vibrationPattern(event: GameEvent): number[] | null {
+  switch (event.type) {
+    case 'merge':
+      return [Math.min(60, 8 + Math.log2(event.value) * 3)];
+    case 'layer-change':
+      return [12];
+    case 'win':
+      return [80, 60, 80, 60, 160];
+    case 'game-over':
+      return [300];
+    default:
+      return null;
+  }
+}
+
+// Plays events as they come. The audio context is only created on the first sound, since
+// browsers keep it silent until the player has interacted with the page.
+export function createSoundPlayer(): (event: GameEvent, settings: SoundSettings) => void {
+  let context: AudioContext | null = null;
+
+  return (event, settings) => {
+    const pattern = settings.haptics ? vibrationPattern(event) : null;
+    if (pattern && typeof navigator.vibrate === "function") navigator.vibrate(pattern);
+
+    if (settings.muted || settings.volume <= 0) return;
+    if (!context) {
+      if (typeof AudioContext === "undefined") return;
+      context = new AudioContext();
+    }
+    if (context.state === "suspended") void context.resume();
+
+    const now = context.currentTime;
+    for (const tone of eventTones(event)) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = now + tone.start;
+      const end = start + tone.duration;
+      oscillator.type = tone.wave;
+      oscillator.frequency.value = tone.frequency;
+      gain.gain.setValueAtTime(SILENT, start);
+      gain.gain.exponentialRampToValueAtTime(tone.gain * settings.volume * MASTER_GAIN, start + ATTACK);
+      gain.gain.exponentialRampToValueAtTime(SILENT, end);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(end);
+    }
+  };
+}
+
+export function saveSoundSettings(settings: SoundSettings): void {
+  const file: SoundFile = { version: SOUND_VERSION, settings };
+  writeStored(SOUND_STORAGE_KEY, file);
+}
+
+export function loadSoundSettings(): SoundSettings {
+  const settings = readStored(SOUND_STORAGE_KEY, SOUND_VERSION, ({ settings }) => {
+    if (
+      !isRecord(settings) ||
+      typeof settings.volume !== "number" ||
+      typeof settings.muted !== "boolean" ||
+      typeof settings.haptics !== "boolean"
+    ) {
+      return null;
+    }
+    return { volume: Math.min(1, Math.max(0, settings.volume)), muted: settings.muted, haptics: settings.haptics };
+  });
+  return settings ?? DEFAULT_SOUND_SETTINGS;
+}
@@ -0,0 +1,97 @@
+// N-dimensional board geometry. A board is a flat array of cells plus its size per axis.
+// Axis 0 is the column (x), axis 1 the row (y), axis 2 the layer (z) and every further
+// axis is a hyper dimension. Axis 0 varies fastest in the flat array. A parallel array
+// holds the identity of the tile in each cell, 0 where the cell is empty.
+
+export type Coords = number[];
+
+export interface Board {
+  shape: number[];
+  cells: number[];
+  ids: number[];
+}
+
+export const LAYER_AXIS = 2;
+
+const AXIS_NAMES = ['x', 'y', 'z', 'w', 'v', 'u', 't', 's'];
+
+export function axisName(axis: number): string {
+  return AXIS_NAMES[axis] ?? `a${axis}`;
+}
+
+export function createBoard(shape: number[]): Board {
+  const count = cellCount(shape);
+  return { shape: [...shape], cells: Array(count).fill(0), ids: Array(count).fill(0) };
+}
+
+export function cellCount(shape: number[]): number {
+  return shape.reduce((count, size) => count * size, 1);
+}
+
+export function strides(shape: number[]): number[] {
+  const result: number[] = [];
+  let stride = 1;
+  for (const size of shape) {
+    result.push(stride);
+    stride *= size;
+  }
+  return result;
+}
+
+export function cellIndex(shape: number[], coords: Coords): number {
+  const stride = strides(shape);
+  return coords.reduce((index, coord, axis) => index + coord * stride[axis], 0);
+}
+
+export function cellCoords(shape: number[], index: number): Coords {
+  const coords: Coords = [];
+  for (const size of shape) {
+    coords.push(index % size);
+    index = Math.floor(index / size);
+  }
+  return coords;
+}
+
+export function getCell(board: Board, coords: Coords): number {
+  return board.cells[cellIndex(board.shape, coords)];
+}
+
+export function layerCount(board: Board): number {
+  return board.shape[LAYER_AXIS];
+}
+
+// Every combination of coordinates for the given sizes, first axis fastest
+export function allCoords(shape: number[]): Coords[] {
+  return Array.from({ length: cellCount(shape) }, (_, index) => cellCoords(shape, index));
+}
+
+// Cell indices of every line along an axis, each ordered from coordinate 0 upwards
+export function axisLines(shape: number[], axis: number): number[][] {
+  const stride = strides(shape)[axis];
+  const lines: number[][] = [];
+
+  for (let start = 0; start < cellCount(shape); start++) {
+    if (cellCoords(shape, start)[axis] !== 0) continue;
+    lines.push(Array.from({ length: shape[axis] }, (_, i) => start + i * stride));
+  }
+  return lines;
+}
+
+// Rebuilds the board with new layers: layer i of the result is layer order[i] of the
+// input, or an empty layer where order[i] is null
+export function mapLayers(board: Board, order: (number | null)[]): Board {
+  const shape = [...board.shape];
+  shape[LAYER_AXIS] = order.length;
+  const result = createBoard(shape);
+
+  result.cells.forEach((_, index) => {
+    const coords = cellCoords(shape, index);
+    const source = order[coords[LAYER_AXIS]];
+    if (source === null) return;
+    coords[LAYER_AXIS] = source;
+    const sourceIndex = cellIndex(board.shape, coords);
+    result.cells[index] = board.cells[sourceIndex];
+    result.ids[index] = board.ids[sourceIndex];
+  });
+  return result;
+}
@@ -0,0 +1,62 @@
+// Camera views of the board. Layers stack upwards along the world y axis, layerSpacing
+// apart, on a footprint of extent[0] × extent[1] centred on the origin.
+
+export type CameraView = 'default' | 'top' | 'isometric' | 'exploded';
+
+export type Vector = [number, number, number];
+
+export interface CameraPose {
+  position: Vector;
+  // Point the orbit controls turn around
+  target: Vector;
+}
+
+export interface CameraScene {
+  extent: [number, number];
+  layers: number;
+  currentLayer: number;
+  layerSpacing: number;
+  // Centre on the current layer instead of the middle of the stack
+  focus: boolean;
+}
+
+export const CAMERA_VIEWS: { view: CameraView; label: string }[] = [
+  { view: 'default', label: "Default" },
+  { view: 'top', label: "Top-down" },
+  { view: 'isometric', label: "Isometric" },
+  { view: 'exploded', label: "Exploded" },
+];
+
+export const DEFAULT_LAYER_SPACING = 1.5;
+export const MIN_LAYER_SPACING = 1;
+export const MAX_LAYER_SPACING = 4;
+
+// Footprint the offsets below were chosen for: a single 4×4 board
+const BASE_EXTENT = 4.4;
+
+export function layerHeight(layer: number, layerSpacing: number): number {
+  return layer * layerSpacing;
+}
+
+// Where the camera goes for a view. The top-down view always looks at the current layer.
+export function cameraPose(view: CameraView, scene: CameraScene): CameraPose {
+  const { extent, layers, currentLayer, layerSpacing, focus } = scene;
+  const scale = Math.max(1, ...extent.map(size => size / BASE_EXTENT));
+  const stackHeight = layerHeight(layers - 1, layerSpacing);
+  const height = focus || view === 'top' ? layerHeight(currentLayer, layerSpacing) : stackHeight / 2;
+  const target: Vector = [0, height, 0];
+  const from = (x: number, y: number, z: number): CameraPose => ({ position: [x, height + y, z], target });
+
+  switch (view) {
+    case 'default':
+      return from(0, 8 * scale, 6 * scale);
+    case 'top':
+      // Straight down would leave the orbit controls without an up direction
+      return from(0, 9 * scale, 0.01);
+    case 'isometric':
+      return from(6 * scale, 6 * scale, 6 * scale);
+    case 'exploded':
+      // Low from the side, far enough back to fit the whole stack
+      return from(0, 1.5, Math.max(10 * scale, stackHeight * 1.6));
+  }
+}
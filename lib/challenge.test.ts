@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createBoard } from "./board";
+import { DEFAULT_CONFIG } from "./engine";
+import {
+  challengeKey,
+  challengeOutcome,
+  CHALLENGES_STORAGE_KEY,
+  CHALLENGES_VERSION,
+  emptyRecords,
+  goalLabel,
+  LevelError,
+  LEVELS,
+  levelState,
+  loadRecords,
+  parseLevels,
+  recordChallenge,
+  saveRecords,
+  type Challenge,
+  type ChallengeProgress,
+} from "./challenge";
+
+const LEVEL = {
+  id: "test",
+  name: "Test",
+  maxLayers: 2,
+  layers: [[[2, 0], [0, 4]]],
+  spawns: [2, { value: 4, at: [1, 0, 1] }],
+  goal: { tile: 8, layer: 1, moves: 3 },
+};
+
+function progress(overrides: Partial<ChallengeProgress> = {}): ChallengeProgress {
+  return { board: createBoard([2, 2, 1]), score: 0, moves: 0, gameOver: false, elapsed: 0, ...overrides };
+}
+
+describe("parseLevels", () => {
+  it("reads a level with its defaults filled in", () => {
+    const [level] = parseLevels(JSON.stringify(LEVEL));
+    expect(level.config).toMatchObject({ width: 2, height: 2, layers: 1, maxLayers: 2, variant: 'classic' });
+    expect(level.layerMode).toBe('independent');
+    expect(level.spawns).toEqual([{ value: 2 }, { value: 4, at: [1, 0, 1] }]);
+    expect(goalLabel(level.goal)).toBe("Make 8 on layer 2 in 3 moves");
+  });
+
+  it("reads every built-in level", () => {
+    expect(LEVELS.length).toBeGreaterThan(0);
+    expect(new Set(LEVELS.map(level => level.id)).size).toBe(LEVELS.length);
+  });
+
+  it("rejects levels it can't play with a LevelError", () => {
+    const broken = [
+      "not json",
+      "[]",
+      { ...LEVEL, id: "" },
+      { ...LEVEL, layerMode: 'sideways' },
+      { ...LEVEL, variant: 'chaos' },
+      { ...LEVEL, layers: [[[2, 0], [0]]] },
+      { ...LEVEL, layers: [[Array(9).fill(0)]] },
+      { ...LEVEL, layers: [[[3, 0], [0, 0]]] },
+      { ...LEVEL, maxLayers: 0 },
+      { ...LEVEL, spawns: [{ value: 2, at: [2, 0, 0] }] },
+      { ...LEVEL, goal: { tile: 8, layer: 2 } },
+      { ...LEVEL, goal: { tile: 8, moves: 0 } },
+    ];
+    for (const level of broken) {
+      const json = typeof level === "string" ? level : JSON.stringify(level);
+      expect(() => parseLevels(json), json).toThrow(LevelError);
+    }
+  });
+
+  it("numbers the starting tiles in board order", () => {
+    const [level] = parseLevels(JSON.stringify(LEVEL));
+    const state = levelState(level, "seed");
+    expect(state.board.cells).toEqual([2, 0, 0, 4]);
+    expect(state.board.ids).toEqual([1, 0, 0, 2]);
+    expect(state.nextTileId).toBe(3);
+  });
+});
+
+describe("challengeOutcome", () => {
+  it("ends score runs when time, moves or room run out", () => {
+    const timed: Challenge = { kind: 'time-attack', seconds: 60 };
+    expect(challengeOutcome(timed, progress({ elapsed: 59 }))).toBeNull();
+    expect(challengeOutcome(timed, progress({ elapsed: 60, score: 100 }))).toMatchObject({ success: true });
+    const limited: Challenge = { kind: 'move-limit', moves: 50 };
+    expect(challengeOutcome(limited, progress({ moves: 49 }))).toBeNull();
+    expect(challengeOutcome(limited, progress({ gameOver: true }))).toMatchObject({ success: true });
+  });
+
+  it("solves a puzzle on the goal layer only, and fails it when the moves run out", () => {
+    const [level] = parseLevels(JSON.stringify(LEVEL));
+    const puzzle: Challenge = { kind: 'puzzle', level };
+    const board = createBoard([2, 2, 2]);
+    board.cells[0] = 8;
+    expect(challengeOutcome(puzzle, progress({ board, moves: 1 }))).toBeNull();
+    expect(challengeOutcome(puzzle, progress({ board, moves: 3 }))).toMatchObject({ success: false });
+    board.cells[4] = 8;
+    expect(challengeOutcome(puzzle, progress({ board, moves: 3 }))).toMatchObject({ success: true });
+  });
+});
+
+describe("challenge records", () => {
+  let stored: Map<string, string>;
+
+  beforeEach(() => {
+    stored = new Map();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => void stored.set(key, value),
+      removeItem: (key: string) => void stored.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps the higher score, or the solve in fewer moves", () => {
+    const timed: Challenge = { kind: 'time-attack', seconds: 60 };
+    const key = challengeKey(timed, DEFAULT_CONFIG, 'independent');
+    let records = recordChallenge(emptyRecords(), key, timed, progress({ score: 500 }));
+    records = recordChallenge(records, key, timed, progress({ score: 300 }));
+    expect(records.bestScores[key]).toBe(500);
+
+    const [level] = parseLevels(JSON.stringify(LEVEL));
+    const puzzle: Challenge = { kind: 'puzzle', level };
+    records = recordChallenge(records, level.id, puzzle, progress({ moves: 3 }));
+    records = recordChallenge(records, level.id, puzzle, progress({ moves: 2 }));
+    expect(records.solvedLevels).toEqual({ test: 2 });
+  });
+
+  it("reads back saved records and drops entries that can't be read", () => {
+    const records = { ...emptyRecords(), bestScores: { a: 10 }, solvedLevels: { b: 4 } };
+    saveRecords(records);
+    expect(loadRecords()).toEqual(records);
+
+    stored.set(CHALLENGES_STORAGE_KEY, JSON.stringify({
+      version: CHALLENGES_VERSION,
+      bestScores: { a: 10, b: "lots", c: -1 },
+      solvedLevels: { d: 4, e: null },
+    }));
+    expect(loadRecords()).toEqual({ version: CHALLENGES_VERSION, bestScores: { a: 10 }, solvedLevels: { d: 4 } });
+
+    stored.set(CHALLENGES_STORAGE_KEY, JSON.stringify({ version: CHALLENGES_VERSION, bestScores: [] }));
+    expect(loadRecords()).toEqual(emptyRecords());
+  });
+});
@@ -0,0 +1,324 @@
+// Challenge modes: time attack (best score in so many seconds), move-limited runs and
+// hand-authored puzzle levels. Levels are JSON, either one level or an array of them:
+//
+//   {
+//     "id": "upstairs",
+//     "name": "Upstairs",
+//     "layerMode": "independent",          optional, independent by default
+//     "variant": "classic",                optional, see RULE_VARIANTS
+//     "maxLayers": 2,                      optional, the starting layer count by default
+//     "layers": [[[2, 0], [0, 0]], ...],   rows of cells per layer; 0 is empty, -1 a blocker
+//     "spawns": [2, { "value": 4, "at": [0, 1, 0] }, ...],
+//     "goal": { "tile": 256, "layer": 1, "moves": 12 }
+//   }
+//
+// Spawns are the tiles dealt after each move, in order; a plain number lands on a random
+// empty cell. Once they run out the usual random tiles take over. Coordinates and the goal
+// layer count from 0, as [column, row, layer].
+
+import { cellCoords, cellIndex, createBoard, LAYER_AXIS, type Board, type Coords } from "./board";
+import {
+  FREE_LAYERS,
+  RULE_VARIANTS,
+  SPECIAL_VALUES,
+  type EngineState,
+  type GameConfig,
+  type LayerMode,
+  type RuleVariant,
+} from "./engine";
+import { createRng } from "./rng";
+import { configLabel } from "./stats";
+import { isRecord, readStored, writeStored } from "./storage";
+import builtinLevels from "./levels.json";
+
+export interface LevelSpawn {
+  value: number;
+  at?: Coords;
+}
+
+export interface LevelGoal {
+  tile: number;
+  // Layer the tile has to be made on; anywhere when left out
+  layer?: number;
+  // Moves allowed; unlimited when left out
+  moves?: number;
+}
+
+export interface Level {
+  id: string;
+  name: string;
+  config: GameConfig;
+  layerMode: LayerMode;
+  // Starting cells per layer, rows of columns
+  layers: number[][][];
+  spawns: LevelSpawn[];
+  goal: LevelGoal;
+}
+
+export type Challenge =
+  | { kind: 'time-attack'; seconds: number }
+  | { kind: 'move-limit'; moves: number }
+  | { kind: 'puzzle'; level: Level };
+
+export interface ChallengeResult {
+  success: boolean;
+  message: string;
+}
+
+// How far a challenge has got
+export interface ChallengeProgress {
+  board: Board;
+  score: number;
+  moves: number;
+  gameOver: boolean;
+  // Seconds on the clock since the first move
+  elapsed: number;
+}
+
+// Best results, kept in localStorage apart from the statistics
+export interface ChallengeRecords {
+  version: number;
+  // Highest score per timed or move-limited challenge and board, see challengeKey
+  bestScores: Record<string, number>;
+  // Fewest moves each solved level took, by level id
+  solvedLevels: Record<string, number>;
+}
+
+export const TIME_ATTACK_SECONDS = [60, 120, 300];
+export const MOVE_LIMITS = [50, 100, 200];
+
+export const CHALLENGES_VERSION = 1;
+export const CHALLENGES_STORAGE_KEY = "5d2048:challenges";
+
+// Largest level the format accepts along any axis
+const MAX_LEVEL_SIZE = 8;
+
+export class LevelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LevelError";
+  }
+}
+
+function isCellValue(value: unknown): value is number {
+  if (!Number.isInteger(value)) return false;
+  const cell = value as number;
+  return cell === 0 || Object.values(SPECIAL_VALUES).includes(cell) || (cell > 1 && Number.isInteger(Math.log2(cell)));
+}
+
+function isTile(value: unknown): value is number {
+  return isCellValue(value) && (value as number) > 0;
+}
+
+function validateLevel(data: unknown): Level {
+  if (!isRecord(data)) throw new LevelError("Level is not an object");
+  const { id, name, layerMode = 'independent', variant = 'classic', maxLayers, layers, spawns = [], goal } = data;
+
+  if (typeof id !== "string" || !id.trim()) throw new LevelError("Level has no id");
+  const where = `Level "${id}"`;
+  if (typeof name !== "string" || !name.trim()) throw new LevelError(`${where} has no name`);
+  if (layerMode !== 'independent' && layerMode !== 'stacked') {
+    throw new LevelError(`${where} has an unknown layer mode "${String(layerMode)}"`);
+  }
+  if (typeof variant !== "string" || !Object.hasOwn(RULE_VARIANTS, variant)) {
+    throw new LevelError(`${where} has an unknown rule variant "${String(variant)}"`);
+  }
+
+  if (!Array.isArray(layers) || layers.length === 0 || !Array.isArray(layers[0]) || !Array.isArray(layers[0][0])) {
+    throw new LevelError(`${where} has no starting layers`);
+  }
+  const height = layers[0].length;
+  const width = layers[0][0].length;
+  const sameSize = layers.every(layer =>
+    Array.isArray(layer) && layer.length === height && layer.every(row => Array.isArray(row) && row.length === width)
+  );
+  if (!sameSize) throw new LevelError(`${where} has layers of different sizes`);
+  if ([width, height, layers.length].some(size => size < 1 || size > MAX_LEVEL_SIZE)) {
+    throw new LevelError(`${where} is larger than ${MAX_LEVEL_SIZE} along some axis`);
+  }
+  if (!layers.flat(2).every(isCellValue)) throw new LevelError(`${where} has cells that are not tiles`);
+
+  const layerLimit = maxLayers ?? layers.length;
+  if (!Number.isInteger(layerLimit) || (layerLimit as number) < layers.length || (layerLimit as number) > MAX_LEVEL_SIZE) {
+    throw new LevelError(`${where} has an invalid layer limit`);
+  }
+  const shape = [width, height, layerLimit as number];
+  const insideBoard = (coords: unknown): coords is Coords =>
+    Array.isArray(coords) &&
+    coords.length === shape.length &&
+    coords.every((coord, axis) => Number.isInteger(coord) && coord >= 0 && coord < shape[axis]);
+
+  if (!Array.isArray(spawns)) throw new LevelError(`${where} has an invalid spawn sequence`);
+  const sequence = spawns.map((spawn, index): LevelSpawn => {
+    if (isTile(spawn)) return { value: spawn };
+    if (isRecord(spawn)) {
+      const { value, at } = spawn;
+      if (isTile(value) && at === undefined) return { value };
+      if (isTile(value) && insideBoard(at)) return { value, at };
+    }
+    throw new LevelError(`${where} has an invalid spawn at position ${index + 1}`);
+  });
+
+  if (!isRecord(goal) || !isTile(goal.tile)) throw new LevelError(`${where} has no goal tile`);
+  const { tile, layer, moves } = goal;
+  if (layer !== undefined && !(Number.isInteger(layer) && (layer as number) >= 0 && (layer as number) < shape[LAYER_AXIS])) {
+    throw new LevelError(`${where} has a goal on a layer outside the board`);
+  }
+  if (moves !== undefined && !(Number.isInteger(moves) && (moves as number) > 0)) {
+    throw new LevelError(`${where} has an invalid move limit`);
+  }
+
+  return {
+    id,
+    name,
+    config: {
+      width,
+      height,
+      layers: layers.length,
+      maxLayers: layerLimit as number,
+      hyper: [],
+      layerCost: FREE_LAYERS,
+      variant: variant as RuleVariant,
+    },
+    layerMode,
+    layers: layers as number[][][],
+    spawns: sequence,
+    goal: {
+      tile,
+      ...(layer !== undefined && { layer: layer as number }),
+      ...(moves !== undefined && { moves: moves as number }),
+    },
+  };
+}
+
+// Parses one level or an array of them; throws a LevelError describing the first problem found
+export function parseLevels(json: string): Level[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new LevelError("Level file is not valid JSON");
+  }
+  const levels = (Array.isArray(data) ? data : [data]).map(validateLevel);
+  if (levels.length === 0) throw new LevelError("Level file has no levels");
+  return levels;
+}
+
+export const LEVELS: Level[] = builtinLevels.map(validateLevel);
+
+// The level's starting position, with tiles numbered in board order
+export function levelState(level: Level, seed: string): EngineState {
+  const { config } = level;
+  const board = createBoard([config.width, config.height, config.layers]);
+  let nextTileId = 1;
+  level.layers.forEach((rows, layer) => {
+    rows.forEach((row, y) => {
+      row.forEach((value, x) => {
+        if (value === 0) return;
+        const index = cellIndex(board.shape, [x, y, layer]);
+        board.cells[index] = value;
+        board.ids[index] = nextTileId++;
+      });
+    });
+  });
+  return { config, layerMode: level.layerMode, board, currentLayer: 0, score: 0, rng: createRng(seed), nextTileId };
+}
+
+// "Make 256 on layer 2 in 12 moves"; layers are shown counting from 1
+export function goalLabel(goal: LevelGoal): string {
+  const layer = goal.layer === undefined ? "" : ` on layer ${goal.layer + 1}`;
+  const moves = goal.moves === undefined ? "" : ` in ${goal.moves} moves`;
+  return `Make ${goal.tile}${layer}${moves}`;
+}
+
+export function goalReached(goal: LevelGoal, board: Board): boolean {
+  return board.cells.some((value, index) =>
+    value >= goal.tile && (goal.layer === undefined || cellCoords(board.shape, index)[LAYER_AXIS] === goal.layer)
+  );
+}
+
+export function challengeLabel(challenge: Challenge): string {
+  switch (challenge.kind) {
+    case 'time-attack':
+      return `Time attack ${challenge.seconds}s`;
+    case 'move-limit':
+      return `${challenge.moves} moves`;
+    case 'puzzle':
+      return challenge.level.name;
+  }
+}
+
+// How the challenge ended, or null while it is still on
+export function challengeOutcome(challenge: Challenge, progress: ChallengeProgress): ChallengeResult | null {
+  const { board, score, moves, gameOver, elapsed } = progress;
+  switch (challenge.kind) {
+    case 'time-attack':
+      // Score runs have no failure: running out of time or of room both end with a score
+      if (elapsed >= challenge.seconds) return { success: true, message: `Time's up! You scored ${score}.` };
+      if (gameOver) return { success: true, message: `The board is full. You scored ${score}.` };
+      return null;
+    case 'move-limit':
+      if (moves >= challenge.moves) return { success: true, message: `Out of moves! You scored ${score}.` };
+      if (gameOver) return { success: true, message: `The board is full. You scored ${score}.` };
+      return null;
+    case 'puzzle': {
+      const { goal } = challenge.level;
+      if (goalReached(goal, board)) {
+        return { success: true, message: `Solved in ${moves} ${moves === 1 ? "move" : "moves"}!` };
+      }
+      if (goal.moves !== undefined && moves >= goal.moves) return { success: false, message: "Out of moves." };
+      if (gameOver) return { success: false, message: "No moves left." };
+      return null;
+    }
+  }
+}
+
+// Which record a challenge counts towards: score runs per board, puzzles per level
+export function challengeKey(challenge: Challenge, config: GameConfig, layerMode: LayerMode): string {
+  switch (challenge.kind) {
+    case 'time-attack':
+      return `time-attack:${challenge.seconds}:${configLabel(config, layerMode)}`;
+    case 'move-limit':
+      return `move-limit:${challenge.moves}:${configLabel(config, layerMode)}`;
+    case 'puzzle':
+      return challenge.level.id;
+  }
+}
+
+export function emptyRecords(): ChallengeRecords {
+  return { version: CHALLENGES_VERSION, bestScores: {}, solvedLevels: {} };
+}
+
+// Keeps a successful result if it beats the record: the higher score, or the solve in fewer moves
+export function recordChallenge(records: ChallengeRecords, key: string, challenge: Challenge, progress: ChallengeProgress): ChallengeRecords {
+  if (challenge.kind === 'puzzle') {
+    const best = records.solvedLevels[key];
+    if (best !== undefined && best <= progress.moves) return records;
+    return { ...records, solvedLevels: { ...records.solvedLevels, [key]: progress.moves } };
+  }
+  const best = records.bestScores[key];
+  if (best !== undefined && best >= progress.score) return records;
+  return { ...records, bestScores: { ...records.bestScores, [key]: progress.score } };
+}
+
+export function saveRecords(records: ChallengeRecords): void {
+  writeStored(CHALLENGES_STORAGE_KEY, records);
+}
+
+// Stored records without the entries that aren't counts
+function readCounts(value: unknown): Record<string, number> | null {
+  if (!isRecord(value)) return null;
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, number] => Number.isInteger(entry[1]) && (entry[1] as number) >= 0)
+  );
+}
+
+// Starts over from no records when nothing usable is stored, and drops entries that can't be read
+export function loadRecords(): ChallengeRecords {
+  const records = readStored(CHALLENGES_STORAGE_KEY, CHALLENGES_VERSION, (file): ChallengeRecords | null => {
+    const bestScores = readCounts(file.bestScores);
+    const solvedLevels = readCounts(file.solvedLevels);
+    return bestScores && solvedLevels ? { version: CHALLENGES_VERSION, bestScores, solvedLevels } : null;
+  });
+  return records ?? emptyRecords();
+}
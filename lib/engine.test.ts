@@ -0,0 +1,282 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyMove,
+  BLOCKER,
+  BOMB,
+  createInitialState,
+  DEFAULT_CONFIG,
+  hasWon,
+  isGameOver,
+  lockedLayers,
+  MULTIPLIER,
+  MULTIPLIER_FACTOR,
+  newGame,
+  slide,
+  spawnTile,
+  SPECIAL_MIN_EMPTY,
+  WILDCARD,
+  type EngineState,
+  type GameConfig,
+  type LayerMode,
+  type RuleVariant,
+} from "./engine";
+import { createRng } from "./rng";
+
+// State whose board holds the given cells, one row after another and layer after layer
+function stateWith(cells: number[], config: Partial<GameConfig> = {}, layerMode: LayerMode = 'independent'): EngineState {
+  const state = createInitialState({ ...DEFAULT_CONFIG, ...config }, layerMode, createRng("test"));
+  expect(cells).toHaveLength(state.board.cells.length);
+  const ids = cells.map((value, index) => (value === 0 ? 0 : index + 1));
+  return { ...state, board: { ...state.board, cells, ids }, nextTileId: cells.length + 1 };
+}
+
+describe("slide", () => {
+  it("merges two pairs of equal tiles", () => {
+    expect(slide([2, 2, 2, 2])).toEqual({ line: [4, 4, 0, 0], moved: true, score: 8 });
+  });
+
+  it("never merges a tile twice in one move", () => {
+    expect(slide([4, 4, 8, 0])).toEqual({ line: [8, 8, 0, 0], moved: true, score: 8 });
+    expect(slide([2, 2, 4, 0]).line).toEqual([4, 4, 0, 0]);
+  });
+
+  it("merges the pair closest to the edge first", () => {
+    expect(slide([2, 2, 2, 0]).line).toEqual([4, 2, 0, 0]);
+  });
+
+  it("closes gaps without merging different tiles", () => {
+    expect(slide([0, 2, 0, 4])).toEqual({ line: [2, 4, 0, 0], moved: true, score: 0 });
+  });
+
+  it("reports a line that cannot move", () => {
+    expect(slide([2, 4, 8, 16])).toEqual({ line: [2, 4, 8, 16], moved: false, score: 0 });
+    expect(slide([0, 0, 0, 0]).moved).toBe(false);
+  });
+});
+
+describe("applyMove", () => {
+  it("slides every row towards the chosen edge", () => {
+    const state = stateWith([
+      2, 2, 2, 2,
+      4, 4, 8, 0,
+      0, 0, 0, 2,
+      0, 0, 0, 0,
+    ]);
+    const right = applyMove(state, 'right');
+    expect(right.moved).toBe(true);
+    expect(right.state.score).toBe(16);
+    expect(right.state.board.cells).toEqual([
+      0, 0, 4, 4,
+      0, 0, 8, 8,
+      0, 0, 0, 2,
+      0, 0, 0, 0,
+    ]);
+  });
+
+  it("slides columns up and down", () => {
+    const state = stateWith([
+      2, 0, 0, 0,
+      2, 0, 0, 0,
+      4, 0, 0, 0,
+      0, 0, 0, 0,
+    ]);
+    expect(applyMove(state, 'down').state.board.cells.filter((_, index) => index % 4 === 0)).toEqual([0, 0, 4, 4]);
+  });
+
+  it("returns the same state with moved false when nothing changes", () => {
+    const state = stateWith([
+      2, 4, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+    ]);
+    const result = applyMove(state, 'left');
+    expect(result.moved).toBe(false);
+    expect(result.state).toBe(state);
+    expect(result.tileMoves).toEqual([]);
+  });
+
+  it("keeps the identity of the tile closer to the edge on a merge", () => {
+    const state = stateWith([
+      2, 2, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+    ]);
+    const result = applyMove(state, 'left');
+    expect(result.state.board.ids[0]).toBe(1);
+    expect(result.tileMoves).toContainEqual({ id: 2, from: [1, 0, 0], to: [0, 0, 0], value: 2, mergedInto: 1 });
+  });
+});
+
+describe("spawnTile", () => {
+  it("deals the same tiles for the same seed", () => {
+    const first = newGame(DEFAULT_CONFIG, 'independent', "seed");
+    const second = newGame(DEFAULT_CONFIG, 'independent', "seed");
+    expect(first.spawned).toEqual(second.spawned);
+    expect(spawnTile(first.state).spawned).toEqual(spawnTile(second.state).spawned);
+  });
+
+  it("deals different tiles for different seeds", () => {
+    const seeds = ["a", "b", "c", "d"].map(seed => newGame(DEFAULT_CONFIG, 'independent', seed).spawned);
+    expect(new Set(seeds.map(spawned => JSON.stringify(spawned))).size).toBeGreaterThan(1);
+  });
+
+  it("only spawns 2s and 4s on empty cells", () => {
+    let state = stateWith(Array(16).fill(0));
+    for (let i = 0; i < 16; i++) {
+      const { state: next, spawned } = spawnTile(state);
+      expect(spawned).not.toBeNull();
+      expect([2, 4]).toContain(spawned!.value);
+      expect(state.board.cells[spawned!.coords[0] + spawned!.coords[1] * 4]).toBe(0);
+      state = next;
+    }
+    expect(spawnTile(state).spawned).toBeNull();
+  });
+});
+
+describe("hasWon and isGameOver", () => {
+  it("wins once the target tile is on the board", () => {
+    const cells = Array(16).fill(0);
+    cells[5] = 1024;
+    expect(hasWon(stateWith(cells))).toBe(false);
+    expect(hasWon(stateWith(cells), 1024)).toBe(true);
+    cells[5] = 2048;
+    expect(hasWon(stateWith(cells))).toBe(true);
+  });
+
+  it("is over when the board is full and nothing merges", () => {
+    expect(isGameOver(stateWith([
+      2, 4, 2, 4,
+      4, 2, 4, 2,
+      2, 4, 2, 4,
+      4, 2, 4, 2,
+    ]))).toBe(true);
+  });
+
+  it("is not over while a full board has an equal pair", () => {
+    expect(isGameOver(stateWith([
+      2, 4, 2, 4,
+      4, 2, 4, 2,
+      2, 4, 2, 4,
+      4, 2, 4, 4,
+    ]))).toBe(false);
+  });
+
+  it("is not over while a cell is empty", () => {
+    expect(isGameOver(stateWith([
+      2, 4, 2, 4,
+      4, 2, 4, 2,
+      2, 4, 0, 4,
+      4, 2, 4, 2,
+    ]))).toBe(false);
+  });
+});
+
+describe("lockedLayers", () => {
+  it("counts room on the neighbouring layer when stacked", () => {
+    const state = stateWith([2, 4, 4, 2, 0, 0, 0, 0], { width: 2, height: 2, layers: 2 }, 'stacked');
+    expect(lockedLayers(state)).toEqual([false, false]);
+    expect(isGameOver(state, 'any')).toBe(false);
+    expect(applyMove(state, 'layer-up').moved).toBe(true);
+  });
+
+  it("ignores the neighbouring layers when independent", () => {
+    const state = stateWith([2, 4, 4, 2, 2, 0, 0, 0], { width: 2, height: 2, layers: 2 });
+    expect(lockedLayers(state)).toEqual([true, false]);
+    expect(isGameOver(state, 'any')).toBe(true);
+  });
+});
+
+describe("special tiles", () => {
+  const X = BLOCKER;
+
+  it("splits lines at blockers", () => {
+    expect(slide([2, X, 0, 2]).line).toEqual([2, X, 2, 0]);
+    expect(slide([0, 2, X, 2]).line).toEqual([2, 0, X, 2]);
+    expect(slide([2, 2, X, 2]).line).toEqual([4, 0, X, 2]);
+    expect(slide([2, X, 2, 0]).moved).toBe(false);
+  });
+
+  it("merges wildcards with any number, doubling it", () => {
+    expect(slide([8, WILDCARD, 0, 0])).toEqual({ line: [16, 0, 0, 0], moved: true, score: 16 });
+    expect(slide([WILDCARD, 2, 0, 0]).line).toEqual([4, 0, 0, 0]);
+    expect(slide([WILDCARD, WILDCARD, 0, 0]).moved).toBe(false);
+  });
+
+  it("merges multipliers with any number, scoring it several times", () => {
+    expect(slide([8, MULTIPLIER, 0, 0])).toEqual({ line: [8, 0, 0, 0], moved: true, score: 8 * MULTIPLIER_FACTOR });
+    expect(slide([MULTIPLIER, X, 0, 0]).moved).toBe(false);
+  });
+
+  it("clears the cell the bomb merges into and keeps the rest of the line out of the blast", () => {
+    expect(slide([BOMB, 2, 4, 8]).line).toEqual([0, 0, 4, 8]);
+    expect(slide([2, BOMB, 0, 4]).line).toEqual([0, 0, 4, 0]);
+  });
+
+  it("clears the neighbours of the cell the bomb merged into on the board after the move, across axes and layers", () => {
+    const state = stateWith([
+      4, 8, 0, 0,
+      BOMB, 2, 0, 0,
+      16, 0, 0, 0,
+      0, 0, 0, 0,
+
+      32, 0, 0, 0,
+      64, 0, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+    ], { layers: 2 });
+    const { state: after } = applyMove(state, 'left');
+    expect(after.board.cells).toEqual([
+      0, 8, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+
+      32, 0, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+      0, 0, 0, 0,
+    ]);
+  });
+
+  it("locks a layer whose empty cells are walled off by blockers", () => {
+    const state = stateWith([
+      0, X, 2, 4,
+      X, 2, 4, 2,
+      2, 4, 2, 4,
+      4, 2, 4, 2,
+    ]);
+    expect(lockedLayers(state)).toEqual([true]);
+    expect(isGameOver(state)).toBe(true);
+  });
+
+  it("locks a layer that holds nothing but blockers", () => {
+    const state = stateWith([X, 0, 0, X, 2, 0, 0, 0], { width: 2, height: 2, layers: 2 });
+    expect(lockedLayers(state)).toEqual([true, false]);
+  });
+
+  it("only deals numbers as starting tiles", () => {
+    for (let game = 0; game < 50; game++) {
+      const { spawned } = newGame({ ...DEFAULT_CONFIG, width: 3, height: 3, layers: 2, variant: 'mayhem' }, 'independent', `sim-${game}`);
+      expect(spawned.every(tile => tile.value > 0)).toBe(true);
+    }
+  });
+
+  it("spawns the variant's special tiles only while enough cells are free", () => {
+    const kinds = (variant: RuleVariant, filled: number) => {
+      const values = new Set<number>();
+      for (let seed = 0; seed < 200; seed++) {
+        const cells = Array(16).fill(0).fill(2, 0, filled).map((value, index) => value * (index % 2 + 1));
+        const state = { ...stateWith(cells, { variant }), rng: createRng(`spawn-${seed}`) };
+        values.add(spawnTile(state).spawned!.value);
+      }
+      return [...values].sort((a, b) => a - b);
+    };
+    expect(kinds('classic', 0)).toEqual([2, 4]);
+    expect(kinds('blockers', 0)).toEqual([X, 2, 4]);
+    expect(kinds('bombs', 0)).toEqual([BOMB, 2, 4]);
+    expect(kinds('mayhem', 0)).toEqual([BOMB, MULTIPLIER, WILDCARD, X, 2, 4]);
+    expect(kinds('mayhem', 16 - SPECIAL_MIN_EMPTY + 1)).toEqual([2, 4]);
+  });
+});
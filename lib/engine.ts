@@ -0,0 +1,624 @@
+// Pure 2048 rules: no React, no zustand, no timers, no global randomness.
+// Every function takes an immutable state and returns a new one.
+
+import {
+  axisLines,
+  cellCoords,
+  cellIndex,
+  createBoard,
+  LAYER_AXIS,
+  layerCount,
+  mapLayers,
+  strides,
+  type Board,
+  type Coords,
+} from "./board";
+import { createRng, nextRandom, type RngAlgorithm, type RngState } from "./rng";
+
+// The named directions move along the first three axes; every further axis is
+// addressed as `axis3+`, `axis3-` and so on
+export type NamedDirection = 'up' | 'down' | 'left' | 'right' | 'layer-up' | 'layer-down';
+export type Direction = NamedDirection | `axis${number}${'+' | '-'}`;
+
+// 'independent': every layer is its own board and layer directions switch the active layer
+// 'stacked': the layers form one board and layer directions slide tiles through the stack
+export type LayerMode = 'independent' | 'stacked';
+
+// What adding a layer takes: nothing, score points that are spent, or a tile of at least
+// the given value somewhere on the board
+export type LayerCost =
+  | { kind: 'free' }
+  | { kind: 'score'; amount: number }
+  | { kind: 'tile'; value: number };
+
+// Tiles other than numbers. Cells hold them as negative values, see SPECIAL_VALUES.
+export type SpecialTile = 'blocker' | 'wildcard' | 'multiplier' | 'bomb';
+
+// Rule variants decide which special tiles spawn besides 2s and 4s
+export type RuleVariant = 'classic' | 'blockers' | 'wildcards' | 'multipliers' | 'bombs' | 'mayhem';
+
+// Board dimensions: width and height of every layer, how many layers a new game starts with
+// and how many it may grow to, and the sizes of any further hyper axes. Also the price of
+// growing the stack and the rule variant.
+export interface GameConfig {
+  width: number;
+  height: number;
+  layers: number;
+  maxLayers: number;
+  hyper: number[];
+  layerCost: LayerCost;
+  variant: RuleVariant;
+}
+
+export interface EngineState {
+  config: GameConfig;
+  layerMode: LayerMode;
+  board: Board;
+  currentLayer: number;
+  score: number;
+  rng: RngState;
+  // Identity given to the next tile that appears on the board
+  nextTileId: number;
+}
+
+// Where a tile went during a move. A merged tile keeps the identity of the tile that was
+// closer to the edge; the other one slides into it and disappears.
+export interface TileMove {
+  id: number;
+  from: Coords;
+  to: Coords;
+  value: number;
+  mergedInto?: number;
+}
+
+export interface MoveResult {
+  state: EngineState;
+  moved: boolean;
+  tileMoves: TileMove[];
+}
+
+export interface SpawnedTile {
+  id: number;
+  coords: Coords;
+  value: number;
+}
+
+export interface SpawnResult {
+  state: EngineState;
+  spawned: SpawnedTile | null;
+}
+
+// 'any': the game ends as soon as one layer is stuck; 'all': only once every layer is
+export type LockPolicy = 'any' | 'all';
+
+export const WIN_VALUE = 2048;
+
+// Share of spawned tiles that are 4s rather than 2s
+export const FOUR_CHANCE = 0.1;
+
+// Cell values of the special tiles:
+// - blockers never move or merge, and tiles slide up against them
+// - wildcards merge with any number, doubling it
+// - multipliers merge with any number, leaving it as it is but scoring it MULTIPLIER_FACTOR times
+// - bombs go off when anything slides into them, clearing every neighbouring cell, on
+//   the layers above and below too
+export const BLOCKER = -1;
+export const WILDCARD = -2;
+export const MULTIPLIER = -3;
+export const BOMB = -4;
+
+export const SPECIAL_VALUES: Record<SpecialTile, number> = {
+  blocker: BLOCKER,
+  wildcard: WILDCARD,
+  multiplier: MULTIPLIER,
+  bomb: BOMB,
+};
+
+export const MULTIPLIER_FACTOR = 4;
+
+// Chance of each special tile per spawn, in place of a 2 or a 4
+export const RULE_VARIANTS: Record<RuleVariant, Partial<Record<SpecialTile, number>>> = {
+  classic: {},
+  blockers: { blocker: 0.04 },
+  wildcards: { wildcard: 0.05 },
+  multipliers: { multiplier: 0.05 },
+  bombs: { bomb: 0.03 },
+  mayhem: { blocker: 0.02, wildcard: 0.03, multiplier: 0.03, bomb: 0.02 },
+};
+
+// Special tiles only spawn while this many cells are free, so a blocker never seals the last gap
+export const SPECIAL_MIN_EMPTY = 4;
+
+// Tiles a game can be played to; endless games have no target and count milestones instead
+export const TARGET_VALUES = [512, 1024, 2048, 4096, 8192, 16384, 32768, 65536, 131072];
+export const FIRST_MILESTONE = 512;
+
+export const DEFAULT_LOCK_POLICY: LockPolicy = 'all';
+
+export const FREE_LAYERS: LayerCost = { kind: 'free' };
+
+export const LAYER_COSTS: LayerCost[] = [
+  FREE_LAYERS,
+  { kind: 'score', amount: 100 },
+  { kind: 'score', amount: 500 },
+  { kind: 'tile', value: 256 },
+  { kind: 'tile', value: 1024 },
+];
+
+export const DEFAULT_CONFIG: GameConfig = {
+  width: 4,
+  height: 4,
+  layers: 1,
+  maxLayers: 4,
+  hyper: [],
+  layerCost: FREE_LAYERS,
+  variant: 'classic',
+};
+
+export const PRESET_CONFIGS: Record<string, GameConfig> = {
+  '4×4': DEFAULT_CONFIG,
+  '3×3×3': { width: 3, height: 3, layers: 3, maxLayers: 3, hyper: [], layerCost: FREE_LAYERS, variant: 'classic' },
+  '4×4×4': { width: 4, height: 4, layers: 4, maxLayers: 6, hyper: [], layerCost: FREE_LAYERS, variant: 'classic' },
+  '5×5': { width: 5, height: 5, layers: 1, maxLayers: 4, hyper: [], layerCost: FREE_LAYERS, variant: 'classic' },
+  '6×6×2': { width: 6, height: 6, layers: 2, maxLayers: 4, hyper: [], layerCost: FREE_LAYERS, variant: 'classic' },
+  '3×3×2×2': { width: 3, height: 3, layers: 2, maxLayers: 3, hyper: [2], layerCost: FREE_LAYERS, variant: 'classic' },
+  '3×3×2×2×2': { width: 3, height: 3, layers: 2, maxLayers: 3, hyper: [2, 2], layerCost: FREE_LAYERS, variant: 'classic' },
+};
+
+const NAMED_DIRECTIONS: Record<NamedDirection, { axis: number; step: 1 | -1 }> = {
+  left: { axis: 0, step: -1 },
+  right: { axis: 0, step: 1 },
+  up: { axis: 1, step: -1 },
+  down: { axis: 1, step: 1 },
+  'layer-down': { axis: LAYER_AXIS, step: -1 },
+  'layer-up': { axis: LAYER_AXIS, step: 1 },
+};
+
+// Axis a direction moves along, and whether tiles travel towards higher (1) or lower (-1) coordinates
+export function directionAxis(direction: Direction): { axis: number; step: 1 | -1 } {
+  if (direction in NAMED_DIRECTIONS) {
+    return NAMED_DIRECTIONS[direction as NamedDirection];
+  }
+  return { axis: parseInt(direction.slice(4), 10), step: direction.endsWith('+') ? 1 : -1 };
+}
+
+export function axisDirection(axis: number, step: 1 | -1): Direction {
+  const named = (Object.keys(NAMED_DIRECTIONS) as NamedDirection[]).find(direction =>
+    NAMED_DIRECTIONS[direction].axis === axis && NAMED_DIRECTIONS[direction].step === step
+  );
+  return named ?? `axis${axis}${step > 0 ? '+' : '-'}`;
+}
+
+// Both directions along every axis of the board
+export function allDirections(config: GameConfig): Direction[] {
+  return boardShape(config).flatMap((_, axis) => [axisDirection(axis, -1), axisDirection(axis, 1)]);
+}
+
+// Which special tile a cell holds, or null for empty cells and numbers
+export function specialTile(value: number): SpecialTile | null {
+  const kinds = Object.keys(SPECIAL_VALUES) as SpecialTile[];
+  return kinds.find(kind => SPECIAL_VALUES[kind] === value) ?? null;
+}
+
+// What two tiles become when the second slides into the first, or null when they don't merge
+function combine(first: number, second: number): { value: number; score: number; explode: boolean } | null {
+  if (first === 0 || second === 0 || first === BLOCKER || second === BLOCKER) return null;
+  if (first === BOMB || second === BOMB) return { value: 0, score: 0, explode: true };
+  if (first > 0 && second === first) return { value: first * 2, score: first * 2, explode: false };
+
+  const number = Math.max(first, second);
+  const special = Math.min(first, second);
+  if (number <= 0) return null;
+  if (special === WILDCARD) return { value: number * 2, score: number * 2, explode: false };
+  if (special === MULTIPLIER) return { value: number, score: number * MULTIPLIER_FACTOR, explode: false };
+  return null;
+}
+
+export function boardShape(config: GameConfig): number[] {
+  return [config.width, config.height, config.layers, ...config.hyper];
+}
+
+export function createInitialState(
+  config: GameConfig = DEFAULT_CONFIG,
+  layerMode: LayerMode = 'independent',
+  rng: RngState = createRng('')
+): EngineState {
+  return {
+    config,
+    layerMode,
+    board: createBoard(boardShape(config)),
+    currentLayer: 0,
+    score: 0,
+    rng,
+    nextTileId: 1,
+  };
+}
+
+// Empty board plus the starting tiles: two per layer when layers are independent,
+// two anywhere on the board when they form one
+export function newGame(
+  config: GameConfig,
+  layerMode: LayerMode,
+  seed: string,
+  algorithm?: RngAlgorithm
+): { state: EngineState; spawned: SpawnedTile[] } {
+  let state = createInitialState(config, layerMode, createRng(seed, algorithm));
+  const targets = layerMode === 'stacked'
+    ? [undefined]
+    : Array.from({ length: config.layers }, (_, layer) => layer);
+  const spawned: SpawnedTile[] = [];
+
+  for (const layer of targets) {
+    for (let i = 0; i < 2; i++) {
+      const result = spawnStartingTile(state, layer);
+      state = result.state;
+      if (result.spawned) spawned.push(result.spawned);
+    }
+  }
+  return { state, spawned };
+}
+
+function layerOrder(board: Board): (number | null)[] {
+  return Array.from({ length: layerCount(board) }, (_, layer) => layer);
+}
+
+// Whether the stack has room for another layer and the player can pay for it
+export function canAddLayer(state: EngineState): boolean {
+  if (layerCount(state.board) >= state.config.maxLayers) return false;
+  const cost = state.config.layerCost;
+  switch (cost.kind) {
+    case 'free':
+      return true;
+    case 'score':
+      return state.score >= cost.amount;
+    case 'tile':
+      return state.board.cells.some(value => value >= cost.value);
+  }
+}
+
+// Appends an empty layer on top of the stack, paying its cost
+export function addLayer(state: EngineState): EngineState {
+  if (!canAddLayer(state)) return state;
+  const cost = state.config.layerCost;
+  return {
+    ...state,
+    board: mapLayers(state.board, [...layerOrder(state.board), null]),
+    score: cost.kind === 'score' ? state.score - cost.amount : state.score,
+  };
+}
+
+// Only a cleared layer can be removed, and the last one never
+export function canRemoveLayer(state: EngineState, layer: number): boolean {
+  const { board } = state;
+  if (layerCount(board) <= 1 || layer < 0 || layer >= layerCount(board)) return false;
+  return board.cells.every((value, index) => value === 0 || cellCoords(board.shape, index)[LAYER_AXIS] !== layer);
+}
+
+export function removeLayer(state: EngineState, layer: number): EngineState {
+  if (!canRemoveLayer(state, layer)) return state;
+  const board = mapLayers(state.board, layerOrder(state.board).filter(source => source !== layer));
+  const currentLayer = state.currentLayer > layer ? state.currentLayer - 1 : state.currentLayer;
+  return { ...state, board, currentLayer: Math.min(currentLayer, layerCount(board) - 1) };
+}
+
+// Moves a layer to another position in the stack; the current layer stays the same layer
+export function moveLayer(state: EngineState, from: number, to: number): EngineState {
+  const count = layerCount(state.board);
+  if (from === to || from < 0 || to < 0 || from >= count || to >= count) return state;
+  const order = layerOrder(state.board).filter(source => source !== from);
+  order.splice(to, 0, from);
+  return { ...state, board: mapLayers(state.board, order), currentLayer: order.indexOf(state.currentLayer) };
+}
+
+// Makes another layer the current one, as the layer directions do one step at a time
+export function selectLayer(state: EngineState, layer: number): EngineState {
+  if (layer === state.currentLayer || layer < 0 || layer >= layerCount(state.board)) return state;
+  return { ...state, currentLayer: layer };
+}
+
+interface SlideResult {
+  line: number[];
+  ids: number[];
+  score: number;
+  moved: boolean;
+  // Positions in the line each tile came from and went to
+  landed: { id: number; from: number; to: number; value: number; mergedInto?: number }[];
+  // Positions in the line where bombs went off
+  explosions: number[];
+}
+
+// Slides a line of tiles and their identities towards index 0, merging each pair of equal tiles once.
+// A bomb going off leaves its cell and the next one empty, and the tiles behind it stop there.
+function slideTiles(line: number[], ids: number[]): SlideResult {
+  // Blockers split the line into stretches that slide on their own
+  const blocker = line.indexOf(BLOCKER);
+  if (blocker !== -1) {
+    const before = slideTiles(line.slice(0, blocker), ids.slice(0, blocker));
+    const after = slideTiles(line.slice(blocker + 1), ids.slice(blocker + 1));
+    const offset = blocker + 1;
+    return {
+      line: [...before.line, BLOCKER, ...after.line],
+      ids: [...before.ids, ids[blocker], ...after.ids],
+      score: before.score + after.score,
+      moved: before.moved || after.moved,
+      landed: [...before.landed, ...after.landed.map(tile => ({ ...tile, from: tile.from + offset, to: tile.to + offset }))],
+      explosions: [...before.explosions, ...after.explosions.map(position => position + offset)],
+    };
+  }
+
+  const tiles = line
+    .map((value, from) => ({ value, id: ids[from], from }))
+    .filter(tile => tile.value !== 0);
+  const result: number[] = [];
+  const resultIds: number[] = [];
+  const landed: SlideResult["landed"] = [];
+  const explosions: number[] = [];
+  let score = 0;
+
+  for (let i = 0; i < tiles.length; i++) {
+    const tile = tiles[i];
+    const to = result.length;
+    const next = tiles[i + 1];
+    const merged = next && combine(tile.value, next.value);
+    if (merged) {
+      landed.push({ id: tile.id, from: tile.from, to, value: tile.value });
+      landed.push({ id: next.id, from: next.from, to, value: next.value, mergedInto: tile.id });
+      i++;
+      score += merged.score;
+      // Both tiles are gone after an explosion and nothing slides into the blast
+      if (merged.explode) {
+        explosions.push(to);
+        const blast = Math.min(2, line.length - to);
+        result.push(...Array(blast).fill(0));
+        resultIds.push(...Array(blast).fill(0));
+        continue;
+      }
+      result.push(merged.value);
+    } else {
+      result.push(tile.value);
+      landed.push({ id: tile.id, from: tile.from, to, value: tile.value });
+    }
+    resultIds.push(tile.id);
+  }
+
+  while (result.length < line.length) {
+    result.push(0);
+    resultIds.push(0);
+  }
+
+  const moved = result.some((val, i) => val !== line[i]);
+  return { line: result, ids: resultIds, score, moved, landed, explosions };
+}
+
+// Slides a single line towards index 0, merging each pair of equal tiles once
+export function slide(line: number[]): { line: number[]; moved: boolean; score: number } {
+  const { line: result, moved, score } = slideTiles(line, line.map(() => 0));
+  return { line: result, moved, score };
+}
+
+// Cell indices that take part in moves, spawning and the win/lose checks: the whole board
+// when stacked, only the current layer when layers are independent
+function activeCells(state: EngineState, layer?: number): number[] {
+  const { shape, cells } = state.board;
+  const only = layer ?? (state.layerMode === 'independent' ? state.currentLayer : undefined);
+  return cells
+    .map((_, index) => index)
+    .filter(index => only === undefined || cellCoords(shape, index)[LAYER_AXIS] === only);
+}
+
+export function applyMove(state: EngineState, direction: Direction): MoveResult {
+  const { board, currentLayer } = state;
+  const { axis, step } = directionAxis(direction);
+  const unchanged: MoveResult = { state, moved: false, tileMoves: [] };
+  if (axis >= board.shape.length) return unchanged;
+
+  // Without the stacked mode, layer directions only switch the active layer
+  if (state.layerMode === 'independent' && axis === LAYER_AXIS) {
+    const layer = currentLayer + step;
+    if (layer >= 0 && layer < layerCount(board)) {
+      return { ...unchanged, state: { ...state, currentLayer: layer } };
+    }
+    return unchanged;
+  }
+
+  const active = new Set(activeCells(state));
+  const cells = [...board.cells];
+  const ids = [...board.ids];
+  const tileMoves: TileMove[] = [];
+  const explosions: number[] = [];
+  let score = state.score;
+  let moved = false;
+
+  for (const line of axisLines(board.shape, axis)) {
+    if (!active.has(line[0])) continue;
+    // Order each line so that index 0 is the edge tiles slide towards
+    const ordered = step > 0 ? [...line].reverse() : line;
+    const result = slideTiles(ordered.map(index => board.cells[index]), ordered.map(index => board.ids[index]));
+    ordered.forEach((index, i) => {
+      cells[index] = result.line[i];
+      ids[index] = result.ids[i];
+    });
+    for (const { id, from, to, value, mergedInto } of result.landed) {
+      if (from === to && mergedInto === undefined) continue;
+      tileMoves.push({
+        id,
+        from: cellCoords(board.shape, ordered[from]),
+        to: cellCoords(board.shape, ordered[to]),
+        value,
+        ...(mergedInto !== undefined && { mergedInto }),
+      });
+    }
+    score += result.score;
+    explosions.push(...result.explosions.map(position => ordered[position]));
+    if (result.moved) moved = true;
+  }
+
+  // Bombs clear their own cell and their neighbours along every axis, whatever the layer mode
+  const stride = strides(board.shape);
+  for (const index of explosions) {
+    const coords = cellCoords(board.shape, index);
+    cells[index] = 0;
+    ids[index] = 0;
+    board.shape.forEach((size, axis) => {
+      for (const step of [-1, 1]) {
+        const coord = coords[axis] + step;
+        if (coord < 0 || coord >= size) continue;
+        cells[index + step * stride[axis]] = 0;
+        ids[index + step * stride[axis]] = 0;
+      }
+    });
+  }
+
+  if (!moved) return unchanged;
+  return { state: { ...state, board: { ...board, cells, ids }, score }, moved: true, tileMoves };
+}
+
+// Spawns on the given layer, or anywhere the current mode allows when no layer is given.
+// Draws from the state's own generator, which advances with every spawn.
+export function spawnTile(state: EngineState, layer?: number, fourChance: number = FOUR_CHANCE): SpawnResult {
+  return drawTile(state, layer, fourChance, true);
+}
+
+// Like spawnTile, but always a 2 or a 4: games and new layers never start with special tiles,
+// which could leave a layer without a single move
+export function spawnStartingTile(state: EngineState, layer?: number): SpawnResult {
+  return drawTile(state, layer, FOUR_CHANCE, false);
+}
+
+// A 2 or a 4 on a random empty cell, or one of the variant's special tiles when they may spawn
+function drawTile(state: EngineState, layer: number | undefined, fourChance: number, specials: boolean): SpawnResult {
+  const { board } = state;
+  const emptyCells = activeCells(state, layer).filter(index => board.cells[index] === 0);
+  if (emptyCells.length === 0) return { state, spawned: null };
+
+  const [cellRoll, rngAfterCell] = nextRandom(state.rng);
+  const [valueRoll, rngAfterValue] = nextRandom(rngAfterCell);
+  let rng = rngAfterValue;
+  const index = emptyCells[Math.floor(cellRoll * emptyCells.length)];
+  let value = valueRoll < 1 - fourChance ? 2 : 4;
+
+  // Classic games draw nothing extra, so their seeds deal the same tiles as ever
+  const chances = specials ? Object.entries(RULE_VARIANTS[state.config.variant]) as [SpecialTile, number][] : [];
+  if (chances.length > 0) {
+    let specialRoll: number;
+    [specialRoll, rng] = nextRandom(rng);
+    if (emptyCells.length >= SPECIAL_MIN_EMPTY) {
+      for (const [kind, chance] of chances) {
+        if (specialRoll < chance) {
+          value = SPECIAL_VALUES[kind];
+          break;
+        }
+        specialRoll -= chance;
+      }
+    }
+  }
+  return withTile({ ...state, rng }, index, value);
+}
+
+// Puts a chosen tile on the given cell. When no cell is given, or it is taken or outside
+// the board, the tile goes to a random empty cell wherever the current mode spawns.
+export function placeTile(state: EngineState, value: number, coords?: Coords): SpawnResult {
+  const { board } = state;
+  const inside = coords?.length === board.shape.length &&
+    coords.every((coord, axis) => coord >= 0 && coord < board.shape[axis]);
+  const index = coords && inside ? cellIndex(board.shape, coords) : -1;
+  if (index !== -1 && board.cells[index] === 0) return withTile(state, index, value);
+
+  const emptyCells = activeCells(state).filter(index => board.cells[index] === 0);
+  if (emptyCells.length === 0) return { state, spawned: null };
+  const [roll, rng] = nextRandom(state.rng);
+  return withTile({ ...state, rng }, emptyCells[Math.floor(roll * emptyCells.length)], value);
+}
+
+function withTile(state: EngineState, index: number, value: number): SpawnResult {
+  const { board } = state;
+  const id = state.nextTileId;
+  const cells = [...board.cells];
+  const ids = [...board.ids];
+  cells[index] = value;
+  ids[index] = id;
+
+  return {
+    state: { ...state, board: { ...board, cells, ids }, nextTileId: id + 1 },
+    spawned: { id, coords: cellCoords(board.shape, index), value },
+  };
+}
+
+// Puts blockers on random empty cells wherever the current mode spawns tiles, as many as fit
+export function dropBlockers(state: EngineState, count: number): { state: EngineState; dropped: SpawnedTile[] } {
+  let { board, rng, nextTileId } = state;
+  const emptyCells = activeCells(state).filter(index => board.cells[index] === 0);
+  const dropped: SpawnedTile[] = [];
+
+  for (let i = 0; i < count && emptyCells.length > 0; i++) {
+    const [roll, next] = nextRandom(rng);
+    rng = next;
+    const [index] = emptyCells.splice(Math.floor(roll * emptyCells.length), 1);
+    const cells = [...board.cells];
+    const ids = [...board.ids];
+    cells[index] = BLOCKER;
+    ids[index] = nextTileId;
+    board = { ...board, cells, ids };
+    dropped.push({ id: nextTileId, coords: cellCoords(board.shape, index), value: BLOCKER });
+    nextTileId++;
+  }
+  return { state: { ...state, board, rng, nextTileId }, dropped };
+}
+
+export function maxTile(state: EngineState): number {
+  return state.board.cells.reduce((max, value) => Math.max(max, value), 0);
+}
+
+// A tile anywhere in the stack counts, not just on the current layer
+export function hasWon(state: EngineState, target: number = WIN_VALUE): boolean {
+  return maxTile(state) >= target;
+}
+
+// Every power of two from the first milestone up to the largest tile on the board
+export function milestones(state: EngineState): number[] {
+  const reached: number[] = [];
+  for (let value = FIRST_MILESTONE; value <= maxTile(state); value *= 2) {
+    reached.push(value);
+  }
+  return reached;
+}
+
+// Whether a tile can slide from one of the two cells into the other, or they can merge
+function canMoveBetween(first: number, second: number): boolean {
+  const slides = (value: number) => value !== 0 && value !== BLOCKER;
+  return (first === 0 && slides(second)) || (second === 0 && slides(first)) || combine(first, second) !== null;
+}
+
+// Whether some move would change any of the given cells: one of them holds a tile with an
+// empty neighbour or a neighbour it merges with, or is empty next to a tile that can slide.
+// Empty cells alone don't count, blockers can wall them off.
+function canMoveFrom(state: EngineState, indices: number[]): boolean {
+  const { shape, cells } = state.board;
+  const stride = strides(shape);
+
+  for (const index of indices) {
+    const coords = cellCoords(shape, index);
+    for (let axis = 0; axis < shape.length; axis++) {
+      // Independent layers never slide or merge into each other
+      if (axis === LAYER_AXIS && state.layerMode === 'independent') continue;
+      if (coords[axis] > 0 && canMoveBetween(cells[index - stride[axis]], cells[index])) return true;
+      if (coords[axis] < shape[axis] - 1 && canMoveBetween(cells[index], cells[index + stride[axis]])) return true;
+    }
+  }
+  return false;
+}
+
+// A layer is stuck when none of its tiles can slide or merge. In the stacked mode
+// room and merges on the neighbouring layers count too.
+export function isLayerLocked(state: EngineState, layer: number): boolean {
+  return !canMoveFrom(state, activeCells(state, layer));
+}
+
+export function lockedLayers(state: EngineState): boolean[] {
+  return Array.from({ length: layerCount(state.board) }, (_, layer) => isLayerLocked(state, layer));
+}
+
+export function isGameOver(state: EngineState, policy: LockPolicy = DEFAULT_LOCK_POLICY): boolean {
+  const locked = lockedLayers(state);
+  return policy === 'any' ? locked.some(Boolean) : locked.every(Boolean);
+}
@@ -0,0 +1,33 @@
+// Events the game emits as it is played, for effects such as sound and vibration that
+// follow play without being part of the game state.
+
+export type GameEvent =
+  // Tiles moved
+  | { type: 'slide' }
+  // Two tiles merged into one of the given value; a move can merge several pairs
+  | { type: 'merge'; value: number }
+  | { type: 'spawn'; value: number }
+  | { type: 'layer-change'; layer: number }
+  | { type: 'win'; value: number }
+  | { type: 'game-over'; score: number };
+
+export type GameEventListener = (event: GameEvent) => void;
+
+export interface EventBus {
+  emit: (event: GameEvent) => void;
+  // Returns a function that removes the listener again
+  subscribe: (listener: GameEventListener) => () => void;
+}
+
+export function createEventBus(): EventBus {
+  const listeners = new Set<GameEventListener>();
+  return {
+    emit: event => listeners.forEach(listener => listener(event)),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createHistory, record, redo, undo } from "./history";
+
+describe("history", () => {
+  it("undoes back to the recorded snapshots in reverse order", () => {
+    let history = record(record(createHistory<number>(), 1), 2);
+
+    const first = undo(history, 3);
+    expect(first?.snapshot).toBe(2);
+    history = first!.history;
+    const second = undo(history, 2);
+    expect(second?.snapshot).toBe(1);
+    expect(undo(second!.history, 1)).toBeNull();
+  });
+
+  it("redoes what was undone", () => {
+    const undone = undo(record(createHistory<number>(), 1), 2)!;
+    const redone = redo(undone.history, undone.snapshot);
+
+    expect(redone?.snapshot).toBe(2);
+    expect(redone?.history).toEqual({ past: [1], future: [] });
+    expect(redo(redone!.history, 2)).toBeNull();
+  });
+
+  it("drops the redo branch when a new change is recorded", () => {
+    const undone = undo(record(createHistory<number>(), 1), 2)!;
+    const history = record(undone.history, 1);
+
+    expect(history.future).toEqual([]);
+    expect(redo(history, 5)).toBeNull();
+  });
+
+  it("keeps only the most recent snapshots past the limit", () => {
+    let history = createHistory<number>();
+    for (let snapshot = 0; snapshot < 5; snapshot++) history = record(history, snapshot, 3);
+
+    expect(history.past).toEqual([2, 3, 4]);
+  });
+
+  it("leaves the history it was given untouched", () => {
+    const history = record(createHistory<number>(), 1);
+    undo(history, 2);
+    record(history, 2);
+
+    expect(history).toEqual({ past: [1], future: [] });
+  });
+});
@@ -0,0 +1,34 @@
+// Bounded undo/redo stacks of immutable snapshots
+
+export interface History<T> {
+  past: T[];
+  future: T[];
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+// Records the state before a change; any redo branch is dropped
+export function record<T>(history: History<T>, snapshot: T, limit: number = DEFAULT_HISTORY_LIMIT): History<T> {
+  const past = [...history.past, snapshot];
+  return { past: past.slice(Math.max(0, past.length - limit)), future: [] };
+}
+
+export function undo<T>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    snapshot: history.past[history.past.length - 1],
+  };
+}
+
+export function redo<T>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    snapshot: history.future[0],
+  };
+}
@@ -0,0 +1,79 @@
+// Input devices beyond the keyboard: swipe gestures and gamepads. Every device reports
+// the same actions, which the app maps onto moves through the active axis pair.
+
+// Screen directions are relative to the active axis pair, not fixed board axes
+export type InputAction =
+  | 'left'
+  | 'right'
+  | 'up'
+  | 'down'
+  | 'layer-up'
+  | 'layer-down'
+  | 'undo'
+  | 'redo'
+  | 'reset'
+  | 'next-axes'
+  | 'previous-axes';
+
+// Shortest swipe, in CSS pixels, and the longest one still counted as a flick, in ms
+export const SWIPE_MIN_DISTANCE = 30;
+export const SWIPE_MAX_DURATION = 600;
+
+export function swipeAction(dx: number, dy: number, duration: number): InputAction | null {
+  if (duration > SWIPE_MAX_DURATION || Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_MIN_DISTANCE) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 'right' : 'left';
+  return dy > 0 ? 'down' : 'up';
+}
+
+// Standard gamepad layout: https://w3c.github.io/gamepad/#remapping
+const GAMEPAD_BUTTONS: Record<number, InputAction> = {
+  1: 'undo',
+  3: 'redo',
+  4: 'layer-down',
+  5: 'layer-up',
+  8: 'next-axes',
+  9: 'reset',
+  12: 'up',
+  13: 'down',
+  14: 'left',
+  15: 'right',
+};
+
+// How far a stick has to be pushed to count, and how far back to let go
+const STICK_PRESS = 0.6;
+const STICK_RELEASE = 0.3;
+
+// Turns polled gamepad state into actions, each firing once when its button or stick
+// direction is pressed. Keeps what was held between polls.
+export function createGamepadReader(): (gamepads: (Gamepad | null)[]) => InputAction[] {
+  const held = new Map<number, Set<InputAction>>();
+
+  return gamepads => {
+    const actions: InputAction[] = [];
+    for (const gamepad of gamepads) {
+      if (!gamepad) continue;
+      const previous = held.get(gamepad.index) ?? new Set<InputAction>();
+      const current = new Set<InputAction>();
+
+      gamepad.buttons.forEach((button, index) => {
+        const action = GAMEPAD_BUTTONS[index];
+        if (action && button.pressed) current.add(action);
+      });
+
+      // Left stick, with some hysteresis so a stick resting near the threshold doesn't repeat
+      const [x = 0, y = 0] = gamepad.axes;
+      const stick: [number, InputAction, InputAction][] = [[x, 'left', 'right'], [y, 'up', 'down']];
+      for (const [value, negative, positive] of stick) {
+        const threshold = (action: InputAction) => (previous.has(action) ? STICK_RELEASE : STICK_PRESS);
+        if (value <= -threshold(negative)) current.add(negative);
+        if (value >= threshold(positive)) current.add(positive);
+      }
+
+      current.forEach(action => {
+        if (!previous.has(action)) actions.push(action);
+      });
+      held.set(gamepad.index, current);
+    }
+    return actions;
+  };
+}
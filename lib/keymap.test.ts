@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  bindKey,
+  boundAction,
+  DEFAULT_KEYMAP,
+  formatCombo,
+  keyCombo,
+  KEYMAP_STORAGE_KEY,
+  KEYMAP_VERSION,
+  keymapConflicts,
+  loadKeymap,
+  saveKeymap,
+  unbindKey,
+} from "./keymap";
+
+function keyPress(key: string, modifiers: Partial<Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>> = {}) {
+  return { key, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers };
+}
+
+describe("keyCombo", () => {
+  it("lists modifiers in a fixed order before the key", () => {
+    expect(keyCombo(keyPress("Z", { shiftKey: true, ctrlKey: true }))).toBe("Ctrl+Shift+z");
+    expect(keyCombo(keyPress("ArrowUp", { altKey: true }))).toBe("Alt+ArrowUp");
+  });
+
+  it("treats Cmd as Ctrl and aliases keys that can't appear in a combination", () => {
+    expect(keyCombo(keyPress("z", { metaKey: true }))).toBe("Ctrl+z");
+    expect(keyCombo(keyPress(" "))).toBe("Space");
+    expect(keyCombo(keyPress("+", { shiftKey: true }))).toBe("Shift+Plus");
+  });
+
+  it("ignores a lone modifier key", () => {
+    expect(keyCombo(keyPress("Shift", { shiftKey: true }))).toBeNull();
+  });
+});
+
+describe("formatCombo", () => {
+  it("shows letters in capitals and arrows as symbols", () => {
+    expect(formatCombo("Ctrl+Shift+z")).toBe("Ctrl+Shift+Z");
+    expect(formatCombo("ArrowLeft")).toBe("←");
+  });
+});
+
+describe("keymap conflicts", () => {
+  it("has none in the default keymap", () => {
+    expect(keymapConflicts(DEFAULT_KEYMAP).size).toBe(0);
+  });
+
+  it("reports a combination bound to two actions and triggers neither", () => {
+    const keymap = bindKey(DEFAULT_KEYMAP, 'reset', "w");
+
+    expect(keymapConflicts(keymap)).toEqual(new Map([["w", ['up', 'reset']]]));
+    expect(boundAction(keymap, "w")).toBeNull();
+    expect(boundAction(keymap, "r")).toBe('reset');
+  });
+
+  it("clears once the binding is removed again", () => {
+    const keymap = unbindKey(bindKey(DEFAULT_KEYMAP, 'reset', "w"), 'reset', 1);
+
+    expect(keymap.reset).toEqual(["r"]);
+    expect(keymapConflicts(keymap).size).toBe(0);
+    expect(boundAction(keymap, "w")).toBe('up');
+  });
+});
+
+describe("bindKey", () => {
+  it("replaces the binding at an index and drops duplicates", () => {
+    expect(bindKey(DEFAULT_KEYMAP, 'up', "i", 1).up).toEqual(["ArrowUp", "i"]);
+    expect(bindKey(DEFAULT_KEYMAP, 'up', "ArrowUp", 1).up).toEqual(["ArrowUp"]);
+    expect(bindKey(DEFAULT_KEYMAP, 'up', "w").up).toEqual(["ArrowUp", "w"]);
+  });
+});
+
+describe("keymap storage", () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("round-trips a saved keymap", () => {
+    const keymap = bindKey(DEFAULT_KEYMAP, 'undo', "u");
+    saveKeymap(keymap);
+
+    expect(loadKeymap()).toEqual(keymap);
+  });
+
+  it("keeps the defaults for actions the stored keymap lacks or can't read", () => {
+    store.set(KEYMAP_STORAGE_KEY, JSON.stringify({ version: KEYMAP_VERSION, keymap: { up: ["i"], down: [2] } }));
+
+    expect(loadKeymap()).toEqual({ ...DEFAULT_KEYMAP, up: ["i"] });
+  });
+
+  it("falls back to the defaults for a keymap it can't read", () => {
+    store.set(KEYMAP_STORAGE_KEY, "not json");
+
+    expect(loadKeymap()).toEqual(DEFAULT_KEYMAP);
+  });
+});
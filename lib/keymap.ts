@@ -0,0 +1,177 @@
+// Remappable keyboard bindings, kept in localStorage. A binding is a key combination
+// such as "w", "ArrowUp" or "Ctrl+Shift+z"; a key press only triggers a binding with
+// exactly the same modifiers.
+
+import type { CameraView } from "./camera";
+import type { InputAction } from "./input";
+import { isRecord, readStored, writeStored } from "./storage";
+
+// Axes past the layer axis have no screen direction, so they get keys of their own
+export type HyperAction = `axis${number}${'+' | '-'}`;
+export type CameraAction = `camera-${CameraView}`;
+export type KeyAction = InputAction | HyperAction | CameraAction;
+
+export type Keymap = Record<KeyAction, string[]>;
+
+export interface KeymapFile {
+  version: number;
+  keymap: Keymap;
+}
+
+export const KEYMAP_VERSION = 1;
+export const KEYMAP_STORAGE_KEY = "5d2048:keymap";
+
+// Every bindable action in the order the settings list them
+export const KEY_ACTIONS: { action: KeyAction; label: string }[] = [
+  { action: 'up', label: "Move up" },
+  { action: 'down', label: "Move down" },
+  { action: 'left', label: "Move left" },
+  { action: 'right', label: "Move right" },
+  { action: 'layer-up', label: "Layer up" },
+  { action: 'layer-down', label: "Layer down" },
+  { action: 'axis3-', label: "4th axis back" },
+  { action: 'axis3+', label: "4th axis forward" },
+  { action: 'axis4-', label: "5th axis back" },
+  { action: 'axis4+', label: "5th axis forward" },
+  { action: 'next-axes', label: "Next active axes" },
+  { action: 'previous-axes', label: "Previous active axes" },
+  { action: 'undo', label: "Undo" },
+  { action: 'redo', label: "Redo" },
+  { action: 'reset', label: "New game" },
+  { action: 'camera-default', label: "Camera: default view" },
+  { action: 'camera-top', label: "Camera: top-down" },
+  { action: 'camera-isometric', label: "Camera: isometric" },
+  { action: 'camera-exploded', label: "Camera: exploded side view" },
+];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  'up': ["ArrowUp", "w"],
+  'down': ["ArrowDown", "s"],
+  'left': ["ArrowLeft", "a"],
+  'right': ["ArrowRight", "d"],
+  'layer-up': ["e", "PageUp"],
+  'layer-down': ["q", "PageDown"],
+  'axis3-': ["z"],
+  'axis3+': ["x"],
+  'axis4-': ["c"],
+  'axis4+': ["v"],
+  // Not Tab, which moves the focus between the buttons of the accessible view
+  'next-axes': ["f"],
+  'previous-axes': ["Shift+f"],
+  'undo': ["Ctrl+z"],
+  'redo': ["Ctrl+Shift+z"],
+  'reset': ["r"],
+  'camera-default': ["1"],
+  'camera-top': ["2"],
+  'camera-isometric': ["3"],
+  'camera-exploded': ["4"],
+};
+
+export function isHyperAction(action: KeyAction): action is HyperAction {
+  return action.startsWith('axis');
+}
+
+export function isCameraAction(action: KeyAction): action is CameraAction {
+  return action.startsWith('camera-');
+}
+
+export function cameraView(action: CameraAction): CameraView {
+  return action.slice('camera-'.length) as CameraView;
+}
+
+const MODIFIER_KEYS = ["Control", "Shift", "Alt", "Meta", "AltGraph", "CapsLock"];
+
+// Keys that can't appear in a combination as they are
+const KEY_ALIASES: Record<string, string> = { " ": "Space", "+": "Plus" };
+
+type KeyPress = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+// The binding a key press matches, or null for a lone modifier key. Cmd counts as Ctrl
+// and letters are lower-cased, so Caps Lock doesn't change which binding fires.
+export function keyCombo(event: KeyPress): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const key = KEY_ALIASES[event.key] ?? (event.key.length === 1 ? event.key.toLowerCase() : event.key);
+  const modifiers = [
+    event.ctrlKey || event.metaKey ? "Ctrl" : null,
+    event.altKey ? "Alt" : null,
+    event.shiftKey ? "Shift" : null,
+  ].filter(modifier => modifier !== null);
+  return [...modifiers, key].join("+");
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+};
+
+// How a binding is shown to the player, e.g. "Ctrl+Shift+Z"
+export function formatCombo(combo: string): string {
+  return combo
+    .split("+")
+    .map(part => KEY_NAMES[part] ?? (part.length === 1 ? part.toUpperCase() : part))
+    .join("+");
+}
+
+// Keys pressed while typing in a field belong to the field, not the game
+export function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+// Combinations bound to more than one action, with the actions sharing them
+export function keymapConflicts(keymap: Keymap): Map<string, KeyAction[]> {
+  const owners = new Map<string, KeyAction[]>();
+  KEY_ACTIONS.forEach(({ action }) => {
+    keymap[action].forEach(combo => owners.set(combo, [...(owners.get(combo) ?? []), action]));
+  });
+  return new Map([...owners].filter(([, actions]) => actions.length > 1));
+}
+
+// The action a combination triggers; a conflicting combination triggers nothing until
+// the player resolves it
+export function boundAction(keymap: Keymap, combo: string): KeyAction | null {
+  const actions = KEY_ACTIONS.filter(({ action }) => keymap[action].includes(combo));
+  return actions.length === 1 ? actions[0].action : null;
+}
+
+// Adds a binding to an action, or replaces its binding at the given index
+export function bindKey(keymap: Keymap, action: KeyAction, combo: string, index?: number): Keymap {
+  const combos = [...keymap[action]];
+  if (index === undefined || index >= combos.length) {
+    if (!combos.includes(combo)) combos.push(combo);
+  } else {
+    combos[index] = combo;
+  }
+  return { ...keymap, [action]: combos.filter((value, i) => combos.indexOf(value) === i) };
+}
+
+export function unbindKey(keymap: Keymap, action: KeyAction, index: number): Keymap {
+  return { ...keymap, [action]: keymap[action].filter((_, i) => i !== index) };
+}
+
+export function saveKeymap(keymap: Keymap): void {
+  const file: KeymapFile = { version: KEYMAP_VERSION, keymap };
+  writeStored(KEYMAP_STORAGE_KEY, file);
+}
+
+// Stored bindings over the defaults, so actions added since they were saved keep their
+// default keys
+export function loadKeymap(): Keymap {
+  const keymap = readStored(KEYMAP_STORAGE_KEY, KEYMAP_VERSION, file => {
+    const stored = file.keymap;
+    if (!isRecord(stored)) return null;
+    const keymap = { ...DEFAULT_KEYMAP };
+    KEY_ACTIONS.forEach(({ action }) => {
+      const combos = stored[action];
+      if (Array.isArray(combos) && combos.every(combo => typeof combo === "string")) keymap[action] = combos;
+    });
+    return keymap;
+  });
+  return keymap ?? DEFAULT_KEYMAP;
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONFIG, newGame } from "./engine";
+import {
+  loadFromStorage,
+  parseGame,
+  SAVE_STORAGE_KEY,
+  SAVE_VERSION,
+  SaveError,
+  saveToStorage,
+  serializeGame,
+  type SavedGame,
+} from "./persistence";
+
+function savedGame(): SavedGame {
+  const { state } = newGame({ ...DEFAULT_CONFIG, layers: 2 }, 'independent', "save test");
+  return {
+    ...state,
+    gameWon: false,
+    gameOver: false,
+    target: 2048,
+    keepPlaying: false,
+    moves: 0,
+    startedAt: null,
+    actions: [],
+  };
+}
+
+// The save file as JSON, with the game changed by edit
+function editedSave(edit: (game: Record<string, unknown>) => Record<string, unknown>): string {
+  const file = JSON.parse(serializeGame(savedGame()));
+  return JSON.stringify({ ...file, game: edit(file.game) });
+}
+
+describe("parseGame", () => {
+  it("reads back a serialized game", () => {
+    const game = { ...savedGame(), score: 120, moves: 7, startedAt: "2026-01-01T00:00:00.000Z", actions: ['left' as const, 'add-layer' as const] };
+    expect(parseGame(serializeGame(game))).toEqual(game);
+  });
+
+  it("rejects files that aren't saves of this version", () => {
+    const file = JSON.parse(serializeGame(savedGame()));
+    const broken = [
+      "not json",
+      "[]",
+      JSON.stringify({ ...file, version: undefined }),
+      JSON.stringify({ ...file, version: SAVE_VERSION + 1 }),
+      JSON.stringify({ ...file, version: 0 }),
+    ];
+    for (const json of broken) {
+      expect(() => parseGame(json), json).toThrow(SaveError);
+    }
+  });
+
+  it("rejects games that don't match their own configuration", () => {
+    const edits: ((game: Record<string, unknown>) => Record<string, unknown>)[] = [
+      game => ({ ...game, config: { ...(game.config as object), width: 0 } }),
+      game => ({ ...game, config: { ...(game.config as object), variant: 'chaos' } }),
+      game => ({ ...game, layerMode: 'sideways' }),
+      game => ({ ...game, board: { ...(game.board as object), shape: [4, 4, 9] } }),
+      game => ({ ...game, board: { ...(game.board as object), cells: Array(32).fill(3) } }),
+      game => ({ ...game, board: { ...(game.board as object), ids: Array(32).fill(0) } }),
+      game => ({ ...game, currentLayer: 2 }),
+      game => ({ ...game, rng: { ...(game.rng as object), algorithm: 'dice' } }),
+      game => ({ ...game, target: 1000 }),
+      game => ({ ...game, startedAt: "yesterday" }),
+      game => ({ ...game, actions: ['sideways'] }),
+    ];
+    for (const edit of edits) {
+      const json = editedSave(edit);
+      expect(() => parseGame(json), json).toThrow(SaveError);
+    }
+  });
+});
+
+describe("loadFromStorage", () => {
+  let stored: Map<string, string>;
+
+  beforeEach(() => {
+    stored = new Map();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => void stored.set(key, value),
+      removeItem: (key: string) => void stored.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("resumes the autosaved game", () => {
+    const game = savedGame();
+    saveToStorage(game);
+    expect(loadFromStorage()).toEqual(game);
+  });
+
+  it("drops a save it can't use", () => {
+    stored.set(SAVE_STORAGE_KEY, editedSave(game => ({ ...game, score: -5 })));
+    expect(loadFromStorage()).toBeNull();
+    expect(stored.has(SAVE_STORAGE_KEY)).toBe(false);
+  });
+});
@@ -0,0 +1,274 @@
+// Saving and loading games: localStorage autosave plus JSON export/import.
+// Saves carry a schema version; older versions are migrated step by step on load.
+
+import {
+  boardShape,
+  RULE_VARIANTS,
+  SPECIAL_VALUES,
+  type EngineState,
+  type GameConfig,
+  type LayerCost,
+  type LayerMode,
+  type RuleVariant,
+} from "./engine";
+import { cellCount, LAYER_AXIS, type Board } from "./board";
+import { isRngAlgorithm } from "./rng";
+import { isGameAction, type GameAction } from "./replay";
+import { isRecord } from "./storage";
+
+export interface SavedGame extends EngineState {
+  gameWon: boolean;
+  gameOver: boolean;
+  // Tile that wins the game, or null in endless mode
+  target: number | null;
+  // Set once the player chose to keep going after winning
+  keepPlaying: boolean;
+  moves: number;
+  // When the first move was made, null until then
+  startedAt: string | null;
+  // Every action since the game started, or null when the game can't be replayed
+  actions: GameAction[] | null;
+}
+
+export interface SaveFile {
+  version: number;
+  savedAt: string;
+  game: SavedGame;
+}
+
+export const SAVE_VERSION = 1;
+export const SAVE_STORAGE_KEY = "5d2048:save";
+
+export class SaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveError";
+  }
+}
+
+// Upgrades a save of version n to version n + 1. Add an entry here whenever the
+// saved shape changes and bump SAVE_VERSION.
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isIntegerArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(item => Number.isInteger(item));
+}
+
+function isRuleVariant(value: unknown): value is RuleVariant {
+  return typeof value === "string" && Object.hasOwn(RULE_VARIANTS, value);
+}
+
+function isLayerCost(value: unknown): value is LayerCost {
+  if (!isRecord(value)) return false;
+  switch (value.kind) {
+    case "free":
+      return true;
+    case "score":
+      return Number.isInteger(value.amount) && (value.amount as number) > 0;
+    case "tile":
+      return Number.isInteger(value.value) && (value.value as number) > 0;
+    default:
+      return false;
+  }
+}
+
+export function isPowerOfTwo(value: number): boolean {
+  return value > 0 && Number.isInteger(Math.log2(value));
+}
+
+function migrate(file: Record<string, unknown>): Record<string, unknown> {
+  let version = file.version;
+  if (!Number.isInteger(version)) {
+    throw new SaveError("Save has no schema version");
+  }
+  if ((version as number) > SAVE_VERSION) {
+    throw new SaveError(`Save version ${version} is newer than this game supports (${SAVE_VERSION})`);
+  }
+
+  while ((version as number) < SAVE_VERSION) {
+    const step = MIGRATIONS[version as number];
+    if (!step) throw new SaveError(`Cannot migrate saves of version ${version}`);
+    file = step(file);
+    version = file.version;
+  }
+  return file;
+}
+
+// Checks a board configuration, from a save or from another player
+export function validateConfig(config: unknown): GameConfig {
+  if (
+    !isRecord(config) ||
+    !isPositiveInteger(config.width) ||
+    !isPositiveInteger(config.height) ||
+    !isPositiveInteger(config.layers) ||
+    !isPositiveInteger(config.maxLayers) ||
+    config.maxLayers < config.layers ||
+    !(isIntegerArray(config.hyper) && config.hyper.every(isPositiveInteger)) ||
+    !isLayerCost(config.layerCost) ||
+    !isRuleVariant(config.variant)
+  ) {
+    throw new SaveError("Save has an invalid board configuration");
+  }
+  return {
+    width: config.width,
+    height: config.height,
+    layers: config.layers,
+    maxLayers: config.maxLayers,
+    hyper: config.hyper,
+    layerCost: config.layerCost,
+    variant: config.variant,
+  };
+}
+
+// Checks that a board matches its configuration and holds only tiles, each with its own identity
+export function validateBoard(board: unknown, config: GameConfig): Board {
+  if (!isRecord(board) || !isIntegerArray(board.shape) || !isIntegerArray(board.cells) || !isIntegerArray(board.ids)) {
+    throw new SaveError("Save has no readable board");
+  }
+
+  const expected = boardShape(config);
+  const { shape, cells, ids } = board;
+  // Layers can be added during play, so only the layer axis may differ from the configuration
+  const mismatch =
+    shape.length !== expected.length ||
+    shape.some((size, axis) => axis !== LAYER_AXIS && size !== expected[axis]) ||
+    shape[LAYER_AXIS] < 1 ||
+    shape[LAYER_AXIS] > config.maxLayers;
+  if (mismatch) {
+    throw new SaveError(`Board shape ${shape.join("×")} does not match its configuration ${expected.join("×")}`);
+  }
+  if (cells.length !== cellCount(shape)) {
+    throw new SaveError(`Board has ${cells.length} cells, expected ${cellCount(shape)}`);
+  }
+  const specials = Object.values(SPECIAL_VALUES);
+  if (cells.some(value => value !== 0 && !specials.includes(value) && !isPowerOfTwo(value))) {
+    throw new SaveError("Board contains values that are not tiles");
+  }
+  const tileIds = ids.filter(id => id !== 0);
+  if (
+    ids.length !== cells.length ||
+    ids.some((id, index) => (id === 0) !== (cells[index] === 0) || id < 0) ||
+    new Set(tileIds).size !== tileIds.length
+  ) {
+    throw new SaveError("Board has inconsistent tile identities");
+  }
+  return { shape, cells, ids };
+}
+
+// Checks that the saved game is complete and that its board matches its own configuration
+function validateGame(game: unknown): SavedGame {
+  if (!isRecord(game)) throw new SaveError("Save contains no game");
+
+  const { config, layerMode, board, currentLayer, score, rng, nextTileId, gameWon, gameOver, target, keepPlaying, moves, startedAt, actions } = game;
+
+  const validConfig = validateConfig(config);
+  if (layerMode !== "independent" && layerMode !== "stacked") {
+    throw new SaveError(`Unknown layer mode "${String(layerMode)}"`);
+  }
+  const { shape, cells, ids } = validateBoard(board, validConfig);
+  if (!Number.isInteger(nextTileId) || (nextTileId as number) < 1) {
+    throw new SaveError("Save has an invalid tile counter");
+  }
+  if (ids.some(id => id >= (nextTileId as number))) {
+    throw new SaveError("Board has inconsistent tile identities");
+  }
+
+  if (!Number.isInteger(currentLayer) || (currentLayer as number) < 0 || (currentLayer as number) >= shape[LAYER_AXIS]) {
+    throw new SaveError("Current layer is outside the board");
+  }
+  if (!Number.isInteger(score) || (score as number) < 0) {
+    throw new SaveError("Score is invalid");
+  }
+  if (
+    !isRecord(rng) ||
+    !isRngAlgorithm(rng.algorithm) ||
+    typeof rng.seed !== "string" ||
+    !Number.isInteger(rng.state)
+  ) {
+    throw new SaveError("Save has an invalid random generator state");
+  }
+  if (typeof gameWon !== "boolean" || typeof gameOver !== "boolean") {
+    throw new SaveError("Save has invalid game flags");
+  }
+  if (target !== null && !(typeof target === "number" && target > 1 && isPowerOfTwo(target))) {
+    throw new SaveError("Save has an invalid target tile");
+  }
+  if (typeof keepPlaying !== "boolean") {
+    throw new SaveError("Save has invalid game flags");
+  }
+  if (!Number.isInteger(moves) || (moves as number) < 0) {
+    throw new SaveError("Move count is invalid");
+  }
+  if (startedAt !== null && (typeof startedAt !== "string" || Number.isNaN(Date.parse(startedAt)))) {
+    throw new SaveError("Save has an invalid start time");
+  }
+  if (actions !== null && !(Array.isArray(actions) && actions.every(isGameAction))) {
+    throw new SaveError("Save has an invalid action log");
+  }
+
+  return {
+    config: validConfig,
+    layerMode: layerMode as LayerMode,
+    board: { shape, cells, ids },
+    currentLayer: currentLayer as number,
+    score: score as number,
+    rng: { algorithm: rng.algorithm, seed: rng.seed, state: rng.state as number },
+    nextTileId: nextTileId as number,
+    gameWon,
+    gameOver,
+    target: target as number | null,
+    keepPlaying,
+    moves: moves as number,
+    startedAt,
+    actions: actions as GameAction[] | null,
+  };
+}
+
+export function serializeGame(game: SavedGame): string {
+  const file: SaveFile = { version: SAVE_VERSION, savedAt: new Date().toISOString(), game };
+  return JSON.stringify(file);
+}
+
+// Parses, migrates and validates a save; throws a SaveError describing the first problem found
+export function parseGame(json: string): SavedGame {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SaveError("Save is not valid JSON");
+  }
+  if (!isRecord(data)) throw new SaveError("Save is not a save file");
+
+  return validateGame(migrate(data).game);
+}
+
+export function saveToStorage(game: SavedGame): void {
+  try {
+    localStorage.setItem(SAVE_STORAGE_KEY, serializeGame(game));
+  } catch {
+    // Storage can be full or disabled; the game simply isn't persisted then
+  }
+}
+
+// Returns null when nothing is saved or the save can't be used, dropping a corrupt save
+export function loadFromStorage(): SavedGame | null {
+  let json: string | null;
+  try {
+    json = localStorage.getItem(SAVE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+  if (!json) return null;
+
+  try {
+    return parseGame(json);
+  } catch (error) {
+    if (!(error instanceof SaveError)) throw error;
+    localStorage.removeItem(SAVE_STORAGE_KEY);
+    return null;
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG, PRESET_CONFIGS, type GameConfig } from "./engine";
+import { applyAction, decodeReplay, encodeReplay, ReplayError, replayFrames, type Replay } from "./replay";
+
+function replayOf(actions: Replay["actions"], config: GameConfig = DEFAULT_CONFIG): Replay {
+  return { config, layerMode: 'independent', seed: "replay test", algorithm: 'mulberry32', actions };
+}
+
+describe("replays", () => {
+  it("round-trips moves and layer actions through the share format", () => {
+    const replay = replayOf(
+      ['left', 'up', 'add-layer', 'select-layer:1', 'layer-down', 'move-layer:0:1', 'remove-layer:1', 'right'],
+      { ...PRESET_CONFIGS["3×3×2×2"], layerCost: { kind: 'score', amount: 16 }, variant: 'bombs' }
+    );
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+  });
+
+  it("plays back the same final position every time", () => {
+    const replay = replayOf(['left', 'up', 'right', 'down', 'left', 'up']);
+    const first = replayFrames(replay);
+    const second = replayFrames(decodeReplay(encodeReplay(replay)));
+    expect(first).toHaveLength(replay.actions.length + 1);
+    expect(second[second.length - 1].state).toEqual(first[first.length - 1].state);
+  });
+
+  it("spawns a tile after each move that changes the board", () => {
+    const [opening] = replayFrames(replayOf([]));
+    const frame = applyAction(opening.state, 'left');
+    expect(frame.spawned).toHaveLength(frame.tileMoves.length > 0 ? 1 : 0);
+  });
+
+  it("reads replays from before layer costs and rule variants", () => {
+    const replay = decodeReplay("r1|4.4.1.1.|i|0|seed|01");
+    expect(replay.config.layerCost).toEqual({ kind: 'free' });
+    expect(replay.config.variant).toBe('classic');
+    expect(replay.actions).toEqual(['left', 'right']);
+    expect(decodeReplay("r2|4.4.1.1.|i|0|f|seed|0").config.variant).toBe('classic');
+  });
+
+  it("rejects malformed replay strings with a ReplayError", () => {
+    const valid = encodeReplay(replayOf(['left']));
+    const withDimensions = (dimensions: string) => valid.replace(/^r3\|[^|]*/, `r3|${dimensions}`);
+    const broken = [
+      "not a replay",
+      valid.replace("|classic|", "|chaos|"),
+      valid.replace("replay%20test", "%E0"),
+      withDimensions("0.4.1.1."),
+      withDimensions("100000.100000.1.1."),
+      withDimensions("1.1.40.40."),
+      `${valid}@`,
+      `${valid}!`,
+    ];
+    for (const text of broken) {
+      expect(() => decodeReplay(text), text).toThrow(ReplayError);
+    }
+  });
+
+  it("refuses to share games with more layers than the format can name", () => {
+    expect(() => encodeReplay(replayOf([], { ...DEFAULT_CONFIG, layers: 1, maxLayers: 40 }))).toThrow(ReplayError);
+  });
+});
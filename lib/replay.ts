@@ -0,0 +1,266 @@
+// Replays: a game is fully described by its configuration, its seed and the actions
+// taken, because every spawn comes from the seeded generator in the game state.
+
+import {
+  addLayer,
+  allDirections,
+  applyMove,
+  boardShape,
+  canAddLayer,
+  FREE_LAYERS,
+  moveLayer,
+  newGame,
+  removeLayer,
+  RULE_VARIANTS,
+  selectLayer,
+  spawnStartingTile,
+  spawnTile,
+  type Direction,
+  type EngineState,
+  type GameConfig,
+  type LayerCost,
+  type LayerMode,
+  type RuleVariant,
+  type SpawnedTile,
+  type TileMove,
+} from "./engine";
+import { cellCount, layerCount } from "./board";
+import { RNG_ALGORITHMS, type RngAlgorithm } from "./rng";
+
+// Layer management actions name the layers they act on: `remove-layer:2` removes layer 2,
+// `move-layer:0:3` moves layer 0 to position 3 and `select-layer:1` makes layer 1 the current one
+export type LayerAction =
+  | 'add-layer'
+  | `remove-layer:${number}`
+  | `move-layer:${number}:${number}`
+  | `select-layer:${number}`;
+export type GameAction = Direction | LayerAction;
+
+export interface Replay {
+  config: GameConfig;
+  layerMode: LayerMode;
+  seed: string;
+  algorithm: RngAlgorithm;
+  actions: GameAction[];
+}
+
+// Board after each action; frame 0 is the opening position
+export interface ReplayFrame {
+  state: EngineState;
+  spawned: SpawnedTile[];
+  tileMoves: TileMove[];
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayError";
+  }
+}
+
+export function isGameAction(value: unknown): value is GameAction {
+  return typeof value === "string" && (
+    ['up', 'down', 'left', 'right', 'layer-up', 'layer-down'].includes(value) ||
+    /^axis\d+[+-]$/.test(value) ||
+    isLayerAction(value)
+  );
+}
+
+export function isLayerAction(value: string): value is LayerAction {
+  return value === 'add-layer' || /^(remove|select)-layer:\d+$/.test(value) || /^move-layer:\d+:\d+$/.test(value);
+}
+
+// Layer indices named by a layer action
+function layerArguments(action: LayerAction): number[] {
+  return action.split(":").slice(1).map(Number);
+}
+
+// Applies a layer action without the tiles that seed a new layer
+export function applyLayerAction(state: EngineState, action: LayerAction): EngineState {
+  const [layer, to] = layerArguments(action);
+  if (action === 'add-layer') return addLayer(state);
+  if (action.startsWith("remove-layer")) return removeLayer(state, layer);
+  if (action.startsWith("select-layer")) return selectLayer(state, layer);
+  return moveLayer(state, layer, to);
+}
+
+// One full turn as the live game plays it: a move followed by a spawn when tiles moved,
+// a new layer seeded with two tiles, or a layer removed, moved or selected
+export function applyAction(state: EngineState, action: GameAction): ReplayFrame {
+  if (isLayerAction(action) && action !== 'add-layer') {
+    return { state: applyLayerAction(state, action), spawned: [], tileMoves: [] };
+  }
+  if (action === 'add-layer') {
+    if (!canAddLayer(state)) return { state, spawned: [], tileMoves: [] };
+    let next = addLayer(state);
+    const layer = layerCount(next.board) - 1;
+    const spawned: SpawnedTile[] = [];
+    for (let i = 0; i < 2; i++) {
+      const result = spawnStartingTile(next, layer);
+      next = result.state;
+      if (result.spawned) spawned.push(result.spawned);
+    }
+    return { state: next, spawned, tileMoves: [] };
+  }
+
+  const { state: moved, moved: tilesMoved, tileMoves } = applyMove(state, action);
+  if (!tilesMoved) return { state: moved, spawned: [], tileMoves };
+  const { state: next, spawned } = spawnTile(moved);
+  return { state: next, spawned: spawned ? [spawned] : [], tileMoves };
+}
+
+export function replayFrames(replay: Replay): ReplayFrame[] {
+  const opening = newGame(replay.config, replay.layerMode, replay.seed, replay.algorithm);
+  const frames: ReplayFrame[] = [{ ...opening, tileMoves: [] }];
+  for (const action of replay.actions) {
+    frames.push(applyAction(frames[frames.length - 1].state, action));
+  }
+  return frames;
+}
+
+// Compact share format: version|width.height.layers.maxLayers.hyper|mode|algorithm|layerCost|variant|seed|actions,
+// with one character per move, "+" for an added layer, "-" plus the layer for a removed one,
+// "~" plus both positions for a moved one and "@" plus the layer for a selected one. The r1
+// format had no layer cost and r2 no rule variant.
+const ACTION_CHARS = "0123456789abcdefghijklmnopqrstuvwxyz";
+const ADD_LAYER_CHAR = "+";
+const REMOVE_LAYER_CHAR = "-";
+const MOVE_LAYER_CHAR = "~";
+const SELECT_LAYER_CHAR = "@";
+const REPLAY_FORMAT = "r3";
+
+// Largest board, counted with every layer it may grow to, a replay may be played on
+export const MAX_REPLAY_CELLS = 4096;
+
+function encodeLayerCost(cost: LayerCost): string {
+  switch (cost.kind) {
+    case 'free':
+      return "f";
+    case 'score':
+      return `s${cost.amount}`;
+    case 'tile':
+      return `t${cost.value}`;
+  }
+}
+
+function decodeLayerCost(text: string): LayerCost {
+  const amount = Number(text.slice(1));
+  if (text === "f") return FREE_LAYERS;
+  if (text.length > 1 && Number.isInteger(amount) && amount > 0) {
+    if (text[0] === "s") return { kind: 'score', amount };
+    if (text[0] === "t") return { kind: 'tile', value: amount };
+  }
+  throw new ReplayError("Replay has an unknown layer cost");
+}
+
+function encodeAction(action: GameAction, directions: Direction[]): string {
+  if (action === 'add-layer') return ADD_LAYER_CHAR;
+  if (isLayerAction(action)) {
+    const layers = layerArguments(action).map(layer => ACTION_CHARS[layer]).join("");
+    if (action.startsWith("remove-layer")) return REMOVE_LAYER_CHAR + layers;
+    if (action.startsWith("select-layer")) return SELECT_LAYER_CHAR + layers;
+    return MOVE_LAYER_CHAR + layers;
+  }
+  return ACTION_CHARS[directions.indexOf(action)];
+}
+
+function decodeActions(text: string, directions: Direction[]): GameAction[] {
+  const actions: GameAction[] = [];
+  const layerAt = (index: number): number => {
+    const layer = index < text.length ? ACTION_CHARS.indexOf(text[index]) : -1;
+    if (layer < 0) throw new ReplayError("Replay contains a layer action without a layer");
+    return layer;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === ADD_LAYER_CHAR) {
+      actions.push('add-layer');
+    } else if (char === REMOVE_LAYER_CHAR) {
+      actions.push(`remove-layer:${layerAt(++i)}`);
+    } else if (char === SELECT_LAYER_CHAR) {
+      actions.push(`select-layer:${layerAt(++i)}`);
+    } else if (char === MOVE_LAYER_CHAR) {
+      const from = layerAt(++i);
+      actions.push(`move-layer:${from}:${layerAt(++i)}`);
+    } else {
+      const direction = directions[ACTION_CHARS.indexOf(char)];
+      if (!direction) throw new ReplayError(`Replay contains an unknown move "${char}"`);
+      actions.push(direction);
+    }
+  }
+  return actions;
+}
+
+export function encodeReplay(replay: Replay): string {
+  const { config } = replay;
+  // Layer actions name each layer with a single character
+  if (Math.max(config.layers, config.maxLayers) > ACTION_CHARS.length) {
+    throw new ReplayError(`Games with more than ${ACTION_CHARS.length} layers can't be shared as replays`);
+  }
+  const directions = allDirections(config);
+  const dimensions = [config.width, config.height, config.layers, config.maxLayers, config.hyper.join("-")].join(".");
+
+  return [
+    REPLAY_FORMAT,
+    dimensions,
+    replay.layerMode === 'stacked' ? "s" : "i",
+    RNG_ALGORITHMS.indexOf(replay.algorithm),
+    encodeLayerCost(config.layerCost),
+    config.variant,
+    encodeURIComponent(replay.seed),
+    replay.actions.map(action => encodeAction(action, directions)).join(""),
+  ].join("|");
+}
+
+export function decodeReplay(text: string): Replay {
+  const parts = text.trim().split("|");
+  // r1 strings predate layer costs, when every layer was free, and r2 strings predate
+  // rule variants
+  if (parts[0] === "r1" && parts.length === 6) parts.splice(4, 0, "f");
+  if ((parts[0] === "r1" || parts[0] === "r2") && parts.length === 7) parts.splice(5, 0, "classic");
+  if (parts.length !== 8 || (parts[0] !== REPLAY_FORMAT && parts[0] !== "r2" && parts[0] !== "r1")) {
+    throw new ReplayError("Not a replay string");
+  }
+  const [, dimensions, mode, algorithmIndex, layerCost, variant, seed, actions] = parts;
+  if (!Object.hasOwn(RULE_VARIANTS, variant)) throw new ReplayError("Replay uses an unknown rule variant");
+
+  const [width, height, layers, maxLayers, hyperPart = ""] = dimensions.split(".");
+  const sizes = [width, height, layers, maxLayers].map(Number);
+  const hyper = hyperPart ? hyperPart.split("-").map(Number) : [];
+  if (![...sizes, ...hyper].every(size => Number.isInteger(size) && size > 0)) {
+    throw new ReplayError("Replay has invalid board dimensions");
+  }
+  const config: GameConfig = {
+    width: sizes[0],
+    height: sizes[1],
+    layers: sizes[2],
+    maxLayers: sizes[3],
+    hyper,
+    layerCost: decodeLayerCost(layerCost),
+    variant: variant as RuleVariant,
+  };
+  const layerLimit = Math.max(config.layers, config.maxLayers);
+  if (layerLimit > ACTION_CHARS.length || cellCount(boardShape({ ...config, layers: layerLimit })) > MAX_REPLAY_CELLS) {
+    throw new ReplayError("Replay board is too large");
+  }
+
+  const algorithm = RNG_ALGORITHMS[Number(algorithmIndex)];
+  if (!algorithm) throw new ReplayError("Replay uses an unknown random generator");
+  if (mode !== "s" && mode !== "i") throw new ReplayError("Replay has an unknown layer mode");
+
+  let decodedSeed: string;
+  try {
+    decodedSeed = decodeURIComponent(seed);
+  } catch {
+    throw new ReplayError("Replay has a malformed seed");
+  }
+
+  return {
+    config,
+    layerMode: mode === "s" ? 'stacked' : 'independent',
+    seed: decodedSeed,
+    algorithm,
+    actions: decodeActions(actions, allDirections(config)),
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createRng, dailySeed, isRngAlgorithm, nextRandom, RNG_ALGORITHMS, type RngState } from "./rng";
+
+function draw(rng: RngState, count: number): [values: number[], rng: RngState] {
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const [value, next] = nextRandom(rng);
+    values.push(value);
+    rng = next;
+  }
+  return [values, rng];
+}
+
+describe("rng", () => {
+  it.each(RNG_ALGORITHMS)("gives the same sequence for the same seed with %s", algorithm => {
+    const [first] = draw(createRng("seed", algorithm), 20);
+    const [second] = draw(createRng("seed", algorithm), 20);
+
+    expect(first).toEqual(second);
+    expect(first.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it.each(RNG_ALGORITHMS)("gives different sequences for different seeds with %s", algorithm => {
+    const [first] = draw(createRng("seed", algorithm), 5);
+    const [second] = draw(createRng("other", algorithm), 5);
+
+    expect(first).not.toEqual(second);
+  });
+
+  it("continues a sequence from its stored state", () => {
+    const [, rng] = draw(createRng("seed"), 10);
+    const restored: RngState = JSON.parse(JSON.stringify(rng));
+
+    expect(draw(restored, 5)[0]).toEqual(draw(createRng("seed"), 15)[0].slice(10));
+  });
+
+  it("advances a copy and leaves the given state alone", () => {
+    const rng = createRng("seed");
+    const [, next] = nextRandom(rng);
+
+    expect(next.state).not.toBe(rng.state);
+    expect(rng).toEqual(createRng("seed"));
+  });
+
+  it("gives different sequences from different algorithms", () => {
+    expect(draw(createRng("seed", 'mulberry32'), 5)[0]).not.toEqual(draw(createRng("seed", 'xorshift32'), 5)[0]);
+  });
+
+  it("recognises only known algorithm names", () => {
+    for (const algorithm of RNG_ALGORITHMS) expect(isRngAlgorithm(algorithm)).toBe(true);
+    expect(isRngAlgorithm("lcg")).toBe(false);
+    expect(isRngAlgorithm("toString")).toBe(false);
+    expect(isRngAlgorithm(1)).toBe(false);
+  });
+
+  it("uses the UTC date for the daily seed", () => {
+    expect(dailySeed(new Date("2026-03-04T23:30:00Z"))).toBe("daily-2026-03-04");
+  });
+});
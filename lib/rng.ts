@@ -0,0 +1,76 @@
+// Seeded pseudo-random number generators. The generator state is a plain object kept
+// in the game state, so the same seed and the same moves always give the same game.
+
+export type RngAlgorithm = 'mulberry32' | 'xorshift32';
+
+export interface RngState {
+  algorithm: RngAlgorithm;
+  seed: string;
+  state: number;
+}
+
+interface Prng {
+  init: (hash: number) => number;
+  // Returns a float in [0, 1) and the next 32-bit state
+  next: (state: number) => [value: number, state: number];
+}
+
+const PRNGS: Record<RngAlgorithm, Prng> = {
+  mulberry32: {
+    init: hash => hash,
+    next: state => {
+      const nextState = (state + 0x6d2b79f5) >>> 0;
+      let t = nextState;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextState];
+    },
+  },
+  xorshift32: {
+    // xorshift never leaves the all-zero state
+    init: hash => hash || 0x9e3779b9,
+    next: state => {
+      let s = state;
+      s ^= s << 13;
+      s ^= s >>> 17;
+      s ^= s << 5;
+      s >>>= 0;
+      return [s / 4294967296, s];
+    },
+  },
+};
+
+export const RNG_ALGORITHMS = Object.keys(PRNGS) as RngAlgorithm[];
+
+export function isRngAlgorithm(value: unknown): value is RngAlgorithm {
+  return typeof value === "string" && Object.hasOwn(PRNGS, value);
+}
+
+// FNV-1a, so any string can serve as a seed
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createRng(seed: string, algorithm: RngAlgorithm = 'mulberry32'): RngState {
+  return { algorithm, seed, state: PRNGS[algorithm].init(hashSeed(seed)) };
+}
+
+export function nextRandom(rng: RngState): [value: number, rng: RngState] {
+  const [value, state] = PRNGS[rng.algorithm].next(rng.state);
+  return [value, { ...rng, state }];
+}
+
+// Short shareable seed for a fresh game
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, '0');
+}
+
+// Everyone playing on the same (UTC) day gets the same seed
+export function dailySeed(date: Date = new Date()): string {
+  return `daily-${date.toISOString().slice(0, 10)}`;
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_CONFIGS } from "./engine";
+import { DEFAULT_SIMULATION, simulateGame } from "./simulate";
+
+describe("simulateGame", () => {
+  it("ends a solver game on a board with several layers in a bounded number of turns", () => {
+    const options = { ...DEFAULT_SIMULATION, config: PRESET_CONFIGS["3×3×2×2"], layerMode: 'independent' as const, policy: 'solver' as const };
+    for (const seed of ["sim-0", "sim-1"]) {
+      const result = simulateGame(options, seed);
+      expect(result.moves).toBeGreaterThan(0);
+      expect(result.turns).toBeLessThan(2 * result.moves + 10);
+    }
+  });
+});
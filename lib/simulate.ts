@@ -0,0 +1,226 @@
+// Headless batch games for balancing rules: plays many games with a simple policy and
+// summarises how they went. Used by scripts/simulate.ts.
+
+import {
+  allDirections,
+  applyMove,
+  FOUR_CHANCE,
+  isGameOver,
+  isLayerLocked,
+  maxTile,
+  newGame,
+  spawnTile,
+  WIN_VALUE,
+  type Direction,
+  type EngineState,
+  type GameConfig,
+  type LayerMode,
+} from "./engine";
+import { layerCount } from "./board";
+import { createRng, nextRandom, type RngState } from "./rng";
+import { DEFAULT_SOLVER_OPTIONS, suggestMove, type SolverOptions } from "./solver";
+import { toCsv } from "./stats";
+
+export type Policy = 'random' | 'greedy' | 'solver';
+
+export const POLICIES: Policy[] = ['random', 'greedy', 'solver'];
+
+export interface SimulationOptions {
+  config: GameConfig;
+  layerMode: LayerMode;
+  policy: Policy;
+  games: number;
+  // Seeds are `${seed}-0`, `${seed}-1`, … so a batch can be rerun exactly
+  seed: string;
+  fourChance: number;
+  target: number;
+  // Games are cut off after this many turns, layer switches included
+  maxMoves: number;
+  solver: SolverOptions;
+}
+
+export interface GameResult {
+  seed: string;
+  score: number;
+  maxTile: number;
+  moves: number;
+  // Turns played, layer switches included
+  turns: number;
+  // Moves it took to first reach the target tile, null if it never was
+  movesToTarget: number | null;
+}
+
+export interface Summary {
+  games: number;
+  policy: Policy;
+  config: GameConfig;
+  layerMode: LayerMode;
+  fourChance: number;
+  target: number;
+  score: { mean: number; min: number; p10: number; p25: number; median: number; p75: number; p90: number; max: number };
+  averageMoves: number;
+  maxTiles: Record<number, number>;
+  targetRate: number;
+  // Over the games that reached the target
+  averageMovesToTarget: number | null;
+  averageMilliseconds: number;
+}
+
+export const DEFAULT_SIMULATION: Omit<SimulationOptions, 'config' | 'layerMode'> = {
+  policy: 'random',
+  games: 1000,
+  seed: "sim",
+  fourChance: FOUR_CHANCE,
+  target: WIN_VALUE,
+  maxMoves: 100000,
+  solver: { ...DEFAULT_SOLVER_OPTIONS, depth: 1 },
+};
+
+// Every direction with the state it leads to
+function choicesFor(state: EngineState): { direction: Direction; state: EngineState; moved: boolean }[] {
+  return allDirections(state.config).map(direction => {
+    const result = applyMove(state, direction);
+    return { direction, state: result.state, moved: result.moved };
+  });
+}
+
+function emptyCells(state: EngineState): number {
+  return state.board.cells.filter(value => value === 0).length;
+}
+
+// Once the current layer is stuck, heads for the nearest layer that still has moves.
+// Null when there is none, or when the rules say the current layer isn't stuck after all.
+function nearestPlayableLayer(state: EngineState): Direction | null {
+  const distances = Array.from({ length: layerCount(state.board) }, (_, layer) => layer)
+    .filter(layer => !isLayerLocked(state, layer))
+    .sort((a, b) => Math.abs(a - state.currentLayer) - Math.abs(b - state.currentLayer));
+  if (distances.length === 0 || distances[0] === state.currentLayer) return null;
+  return distances[0] > state.currentLayer ? 'layer-up' : 'layer-down';
+}
+
+// Picks the next direction among the moves that change the board
+function chooseDirection(state: EngineState, policy: Policy, rng: RngState, solver: SolverOptions): [Direction | null, RngState] {
+  const pool = choicesFor(state).filter(choice => choice.moved);
+  if (pool.length === 0) return [state.layerMode === 'independent' ? nearestPlayableLayer(state) : null, rng];
+
+  switch (policy) {
+    case 'random': {
+      const [roll, next] = nextRandom(rng);
+      return [pool[Math.floor(roll * pool.length)].direction, next];
+    }
+    case 'greedy': {
+      // Highest immediate score, then the most room left
+      const best = pool.reduce((a, b) =>
+        b.state.score > a.state.score || (b.state.score === a.state.score && emptyCells(b.state) > emptyCells(a.state)) ? b : a
+      );
+      return [best.direction, rng];
+    }
+    case 'solver':
+      return [suggestMove(state, solver).direction, rng];
+  }
+}
+
+export function simulateGame(options: SimulationOptions, seed: string): GameResult {
+  let { state } = newGame(options.config, options.layerMode, seed);
+  let policyRng = createRng(`${seed}-policy`);
+  let moves = 0;
+  let turns = 0;
+  let movesToTarget: number | null = null;
+  // Layer switches since a tile last moved. Every layer is fewer switches away than there
+  // are layers, so a policy that keeps switching past that is stuck and the game ends.
+  let switches = 0;
+
+  for (; turns < options.maxMoves && switches <= layerCount(state.board) && !isGameOver(state); turns++) {
+    const [direction, rng] = chooseDirection(state, options.policy, policyRng, options.solver);
+    policyRng = rng;
+    if (!direction) break;
+
+    const result = applyMove(state, direction);
+    state = result.state;
+    if (!result.moved) {
+      switches++;
+      continue;
+    }
+    switches = 0;
+    state = spawnTile(state, undefined, options.fourChance).state;
+    moves++;
+    if (movesToTarget === null && maxTile(state) >= options.target) movesToTarget = moves;
+  }
+
+  return { seed, score: state.score, maxTile: maxTile(state), moves, turns, movesToTarget };
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function summarize(options: SimulationOptions, results: GameResult[], milliseconds: number): Summary {
+  const scores = results.map(result => result.score).sort((a, b) => a - b);
+  const reached = results.flatMap(result => (result.movesToTarget === null ? [] : [result.movesToTarget]));
+  const maxTiles: Record<number, number> = {};
+  results.forEach(result => {
+    maxTiles[result.maxTile] = (maxTiles[result.maxTile] ?? 0) + 1;
+  });
+
+  return {
+    games: results.length,
+    policy: options.policy,
+    config: options.config,
+    layerMode: options.layerMode,
+    fourChance: options.fourChance,
+    target: options.target,
+    score: {
+      mean: mean(scores),
+      min: scores[0] ?? 0,
+      p10: percentile(scores, 0.1),
+      p25: percentile(scores, 0.25),
+      median: percentile(scores, 0.5),
+      p75: percentile(scores, 0.75),
+      p90: percentile(scores, 0.9),
+      max: scores[scores.length - 1] ?? 0,
+    },
+    averageMoves: mean(results.map(result => result.moves)),
+    maxTiles,
+    targetRate: results.length === 0 ? 0 : reached.length / results.length,
+    averageMovesToTarget: reached.length === 0 ? null : mean(reached),
+    averageMilliseconds: results.length === 0 ? 0 : milliseconds / results.length,
+  };
+}
+
+// Plays the whole batch; onProgress is called after every game
+export function simulate(options: SimulationOptions, onProgress?: (done: number) => void): Summary {
+  const started = Date.now();
+  const results: GameResult[] = [];
+  for (let game = 0; game < options.games; game++) {
+    results.push(simulateGame(options, `${options.seed}-${game}`));
+    onProgress?.(game + 1);
+  }
+  return summarize(options, results, Date.now() - started);
+}
+
+// One metric per row, so summaries of different rule variants can be pasted side by side
+export function summaryToCsv(summary: Summary): string {
+  const { config } = summary;
+  const tiles = Object.keys(summary.maxTiles).map(Number).sort((a, b) => a - b);
+  return toCsv([
+    ["metric", "value"],
+    ["games", summary.games],
+    ["policy", summary.policy],
+    ["board", [config.width, config.height, config.layers, ...config.hyper].join("x")],
+    ["layer_mode", summary.layerMode],
+    ["variant", config.variant],
+    ["four_chance", summary.fourChance],
+    ["target", summary.target],
+    ...Object.entries(summary.score).map(([key, value]) => [`score_${key}`, value]),
+    ["average_moves", summary.averageMoves],
+    ["target_rate", summary.targetRate],
+    ["average_moves_to_target", summary.averageMovesToTarget ?? ""],
+    ["average_ms_per_game", summary.averageMilliseconds],
+    ...tiles.map(tile => [`max_tile_${tile}`, summary.maxTiles[tile]]),
+  ]);
+}
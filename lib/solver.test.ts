@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { applyMove, createInitialState, PRESET_CONFIGS, type EngineState } from "./engine";
+import { createRng } from "./rng";
+import { suggestMove } from "./solver";
+
+// A 3×3×2×2 position where the best move on either layer is the same hyper move, so
+// switching layers is worth exactly as much as moving
+function tiedPosition(currentLayer: number): EngineState {
+  const state = createInitialState(PRESET_CONFIGS["3×3×2×2"], 'independent', createRng("test"));
+  // One 3×3 grid per layer, for each position along the hyper axis
+  const cells = [
+    4, 0, 0,
+    0, 0, 0,
+    8, 32, 2,
+
+    32, 16, 2,
+    4, 0, 0,
+    0, 0, 0,
+
+    0, 0, 0,
+    0, 0, 0,
+    16, 0, 2,
+
+    0, 0, 2,
+    0, 0, 0,
+    0, 0, 0,
+  ];
+  const ids = cells.map((value, index) => (value === 0 ? 0 : index + 1));
+  return { ...state, board: { ...state.board, cells, ids }, currentLayer, nextTileId: cells.length + 1 };
+}
+
+describe("suggestMove", () => {
+  it("moves tiles rather than switching layers when both are worth the same", () => {
+    for (const layer of [0, 1]) {
+      const { direction } = suggestMove(tiedPosition(layer));
+      expect(direction).not.toBeNull();
+      expect(applyMove(tiedPosition(layer), direction!).moved).toBe(true);
+    }
+  });
+});
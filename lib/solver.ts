@@ -0,0 +1,170 @@
+// Move search on top of the engine: expectimax over every possible spawn, or Monte-Carlo
+// random playouts. Pure and synchronous; the app runs it in a Web Worker.
+
+import { cellCoords, LAYER_AXIS } from "./board";
+import {
+  allDirections,
+  applyMove,
+  FOUR_CHANCE,
+  isGameOver,
+  spawnTile,
+  type Direction,
+  type EngineState,
+} from "./engine";
+import { createRng, nextRandom } from "./rng";
+
+export type SolverStrategy = 'expectimax' | 'monte-carlo';
+
+export interface SolverOptions {
+  strategy: SolverStrategy;
+  // Moves to look ahead: expectimax plies, or the length of each playout
+  depth: number;
+  // Playouts per direction for the Monte-Carlo strategy
+  rollouts: number;
+}
+
+export interface Suggestion {
+  // Best direction, or null when nothing can move
+  direction: Direction | null;
+  // Expected value of every direction that changes anything
+  values: Partial<Record<Direction, number>>;
+}
+
+export const DEFAULT_SOLVER_OPTIONS: SolverOptions = { strategy: 'expectimax', depth: 2, rollouts: 20 };
+
+// Spawns considered per chance node; larger boards are sampled evenly
+const MAX_SPAWN_CELLS = 6;
+const EMPTY_CELL_WEIGHT = 16;
+const PAIR_WEIGHT = 4;
+const GAME_OVER_PENALTY = 1e6;
+// What a layer switch gives up against a tile move, so hints never flip between two layers
+// whose best moves are worth the same
+const LAYER_SWITCH_COST = 1;
+
+// Cells a spawn can land on in the state's mode
+function spawnCells(state: EngineState): number[] {
+  const { board, layerMode, currentLayer } = state;
+  return board.cells.flatMap((value, index) => {
+    if (value !== 0) return [];
+    if (layerMode === 'independent' && cellCoords(board.shape, index)[LAYER_AXIS] !== currentLayer) return [];
+    return [index];
+  });
+}
+
+// Score plus room to manoeuvre: empty cells and equal neighbours that can still merge
+function evaluate(state: EngineState): number {
+  const { shape, cells } = state.board;
+  let empty = 0;
+  let pairs = 0;
+  let stride = 1;
+  for (let axis = 0; axis < shape.length; axis++) {
+    for (let index = 0; index < cells.length; index++) {
+      if (axis === 0 && cells[index] === 0) empty++;
+      const coord = Math.floor(index / stride) % shape[axis];
+      if (cells[index] > 0 && coord < shape[axis] - 1 && cells[index + stride] === cells[index]) pairs++;
+    }
+    stride *= shape[axis];
+  }
+  return state.score + empty * EMPTY_CELL_WEIGHT + pairs * PAIR_WEIGHT;
+}
+
+interface Candidate {
+  direction: Direction;
+  state: EngineState;
+  moved: boolean;
+}
+
+// Directions worth trying: moves that change the board, and in the independent mode
+// switches to another layer
+function candidateMoves(state: EngineState): Candidate[] {
+  return allDirections(state.config).flatMap((direction): Candidate[] => {
+    const result = applyMove(state, direction);
+    if (result.moved) return [{ direction, state: result.state, moved: true }];
+    if (result.state.currentLayer !== state.currentLayer) return [{ direction, state: result.state, moved: false }];
+    return [];
+  });
+}
+
+function maxNode(state: EngineState, depth: number, allowLayerSwitch: boolean): number {
+  let best = -Infinity;
+  for (const candidate of candidateMoves(state)) {
+    // Switching layers costs no spawn, so it is valued by the best move on the new layer
+    const value = candidate.moved
+      ? chanceNode(candidate.state, depth)
+      : allowLayerSwitch ? maxNode(candidate.state, depth, false) : -Infinity;
+    best = Math.max(best, value);
+  }
+  return best === -Infinity ? evaluate(state) - GAME_OVER_PENALTY : best;
+}
+
+function chanceNode(state: EngineState, depth: number): number {
+  if (depth <= 1) return evaluate(state);
+  const cells = spawnCells(state);
+  if (cells.length === 0) return evaluate(state);
+
+  const step = Math.max(1, cells.length / MAX_SPAWN_CELLS);
+  const sampled: number[] = [];
+  for (let i = 0; i < cells.length && sampled.length < MAX_SPAWN_CELLS; i += step) {
+    sampled.push(cells[Math.floor(i)]);
+  }
+
+  let total = 0;
+  for (const index of sampled) {
+    for (const [value, chance] of [[2, 1 - FOUR_CHANCE], [4, FOUR_CHANCE]]) {
+      const spawned = [...state.board.cells];
+      spawned[index] = value;
+      // Identities don't matter to the search, so the ids array is shared
+      const next = { ...state, board: { ...state.board, cells: spawned } };
+      total += chance * maxNode(next, depth - 1, true);
+    }
+  }
+  return total / sampled.length;
+}
+
+// One random game from the state on, drawing spawns from its own generator so the
+// search can't peek at the game's upcoming tiles
+function playout(state: EngineState, depth: number, seed: string): number {
+  let current = { ...state, rng: createRng(seed) };
+  for (let i = 0; i < depth && !isGameOver(current); i++) {
+    const moves = candidateMoves(current).filter(candidate => candidate.moved);
+    if (moves.length === 0) break;
+    const [roll, rng] = nextRandom(current.rng);
+    const pick = moves[Math.floor(roll * moves.length)];
+    current = spawnTile({ ...pick.state, rng }).state;
+  }
+  return evaluate(current);
+}
+
+function directionValue(state: EngineState, direction: Direction, options: SolverOptions): number {
+  const { state: next, moved } = applyMove(state, direction);
+  if (!moved) {
+    // A layer switch is worth a little less than the best move on the layer it switches to
+    const moves = candidateMoves(next).filter(candidate => candidate.moved);
+    const best = Math.max(-GAME_OVER_PENALTY, ...moves.map(candidate => directionValue(next, candidate.direction, options)));
+    return best - LAYER_SWITCH_COST;
+  }
+  if (options.strategy === 'expectimax') return chanceNode(next, options.depth);
+
+  let total = 0;
+  for (let i = 0; i < options.rollouts; i++) {
+    const spawned = spawnTile({ ...next, rng: createRng(`spawn-${i}`) }).state;
+    total += playout(spawned, options.depth, `playout-${i}`);
+  }
+  return total / options.rollouts;
+}
+
+export function suggestMove(state: EngineState, options: SolverOptions = DEFAULT_SOLVER_OPTIONS): Suggestion {
+  const values: Partial<Record<Direction, number>> = {};
+  let direction: Direction | null = null;
+  let best = -Infinity;
+
+  for (const candidate of candidateMoves(state)) {
+    const value = directionValue(state, candidate.direction, options);
+    values[candidate.direction] = value;
+    if (value > best) {
+      best = value;
+      direction = candidate.direction;
+    }
+  }
+  return { direction, values };
+}
@@ -0,0 +1,20 @@
+// Runs the solver off the main thread so the canvas keeps rendering while it searches
+
+import type { EngineState } from "./engine";
+import { suggestMove, type SolverOptions, type Suggestion } from "./solver";
+
+export interface SolverRequest {
+  id: number;
+  state: EngineState;
+  options: SolverOptions;
+}
+
+export interface SolverResponse extends Suggestion {
+  id: number;
+}
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const { id, state, options } = event.data;
+  const response: SolverResponse = { id, ...suggestMove(state, options) };
+  self.postMessage(response);
+};
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONFIG } from "./engine";
+import {
+  emptyStats,
+  LEADERBOARD_SIZE,
+  leaderboardToCsv,
+  loadStats,
+  recordGame,
+  saveStats,
+  STATS_STORAGE_KEY,
+  STATS_VERSION,
+  statsToCsv,
+  toCsv,
+  winRate,
+  type GameRecord,
+} from "./stats";
+
+function gameRecord(score: number, overrides: Partial<GameRecord> = {}): GameRecord {
+  return {
+    date: "2026-01-01T00:00:00.000Z",
+    config: DEFAULT_CONFIG,
+    layerMode: 'independent',
+    seed: `seed-${score}`,
+    score,
+    maxTile: 256,
+    moves: 100,
+    duration: 60000,
+    won: false,
+    ...overrides,
+  };
+}
+
+describe("recordGame", () => {
+  it("counts every game and keeps the best scores, fewest moves first on a tie", () => {
+    let file = emptyStats();
+    file = recordGame(file, gameRecord(500));
+    file = recordGame(file, gameRecord(900, { won: true, maxTile: 2048 }));
+    file = recordGame(file, gameRecord(500, { moves: 50, seed: "quick" }));
+    expect(file.leaderboard.map(record => record.seed)).toEqual(["seed-900", "quick", "seed-500"]);
+    expect(file.stats).toEqual({ gamesPlayed: 3, gamesWon: 1, bestTiles: { 256: 2, 2048: 1 } });
+    expect(winRate(file.stats)).toBeCloseTo(1 / 3);
+  });
+
+  it("keeps the leaderboard to its size", () => {
+    let file = emptyStats();
+    for (let score = 0; score < LEADERBOARD_SIZE + 5; score++) file = recordGame(file, gameRecord(score));
+    expect(file.leaderboard).toHaveLength(LEADERBOARD_SIZE);
+    expect(file.leaderboard[LEADERBOARD_SIZE - 1].score).toBe(5);
+    expect(file.stats.gamesPlayed).toBe(LEADERBOARD_SIZE + 5);
+  });
+});
+
+describe("CSV export", () => {
+  it("quotes fields with separators, quotes or line breaks", () => {
+    expect(toCsv([["plain", 'say "hi"', "a,b", "two\nlines", 3, true]])).toBe('plain,"say ""hi""","a,b","two\nlines",3,true');
+  });
+
+  it("writes one row per leaderboard entry and per best tile", () => {
+    const file = recordGame(recordGame(emptyStats(), gameRecord(10)), gameRecord(20, { maxTile: 512 }));
+    expect(leaderboardToCsv(file.leaderboard).split("\n")).toHaveLength(3);
+    expect(statsToCsv(file.stats)).toContain("best_tile_512,1");
+  });
+});
+
+describe("loadStats", () => {
+  let stored: Map<string, string>;
+
+  beforeEach(() => {
+    stored = new Map();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => void stored.set(key, value),
+      removeItem: (key: string) => void stored.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads back what was saved", () => {
+    const file = recordGame(emptyStats(), gameRecord(42));
+    saveStats(file);
+    expect(loadStats()).toEqual(file);
+  });
+
+  it("starts over when nothing usable is stored", () => {
+    expect(loadStats()).toEqual(emptyStats());
+    stored.set(STATS_STORAGE_KEY, "not json");
+    expect(loadStats()).toEqual(emptyStats());
+    stored.set(STATS_STORAGE_KEY, JSON.stringify({ version: STATS_VERSION + 1, leaderboard: [], stats: emptyStats().stats }));
+    expect(loadStats()).toEqual(emptyStats());
+    stored.set(STATS_STORAGE_KEY, JSON.stringify({ version: STATS_VERSION, leaderboard: [], stats: { gamesPlayed: "3" } }));
+    expect(loadStats()).toEqual(emptyStats());
+  });
+
+  it("drops leaderboard entries and tile counts that can't be read", () => {
+    const valid = gameRecord(42);
+    stored.set(STATS_STORAGE_KEY, JSON.stringify({
+      version: STATS_VERSION,
+      leaderboard: [valid, null, { ...valid, config: { width: 4 } }, { ...valid, score: "lots" }, { ...valid, layerMode: 'sideways' }],
+      stats: { gamesPlayed: 5, gamesWon: 0, bestTiles: { 256: 4, 512: "many", tile: 1 } },
+    }));
+    expect(loadStats()).toEqual({
+      version: STATS_VERSION,
+      leaderboard: [valid],
+      stats: { gamesPlayed: 5, gamesWon: 0, bestTiles: { 256: 4 } },
+    });
+  });
+});
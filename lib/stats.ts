@@ -0,0 +1,177 @@
+// High scores and lifetime statistics, kept in localStorage apart from the saved game
+// and exportable as JSON or CSV.
+
+import type { GameConfig, LayerMode } from "./engine";
+import { SaveError, validateConfig } from "./persistence";
+import { isRecord, readStored, writeStored } from "./storage";
+
+// One finished (or abandoned) game
+export interface GameRecord {
+  date: string;
+  config: GameConfig;
+  layerMode: LayerMode;
+  seed: string;
+  score: number;
+  maxTile: number;
+  moves: number;
+  // Milliseconds from the first move to the end of the game
+  duration: number;
+  won: boolean;
+}
+
+export interface LifetimeStats {
+  gamesPlayed: number;
+  gamesWon: number;
+  // How many games ended with each value as their largest tile
+  bestTiles: Record<number, number>;
+}
+
+export interface StatsFile {
+  version: number;
+  leaderboard: GameRecord[];
+  stats: LifetimeStats;
+}
+
+export const STATS_VERSION = 1;
+export const STATS_STORAGE_KEY = "5d2048:stats";
+export const LEADERBOARD_SIZE = 20;
+
+export function emptyStats(): StatsFile {
+  return { version: STATS_VERSION, leaderboard: [], stats: { gamesPlayed: 0, gamesWon: 0, bestTiles: {} } };
+}
+
+// Counts the game and keeps it on the leaderboard if it scored high enough
+export function recordGame(file: StatsFile, record: GameRecord): StatsFile {
+  const { stats } = file;
+  const leaderboard = [...file.leaderboard, record]
+    .sort((a, b) => b.score - a.score || a.moves - b.moves)
+    .slice(0, LEADERBOARD_SIZE);
+
+  return {
+    ...file,
+    leaderboard,
+    stats: {
+      gamesPlayed: stats.gamesPlayed + 1,
+      gamesWon: stats.gamesWon + (record.won ? 1 : 0),
+      bestTiles: { ...stats.bestTiles, [record.maxTile]: (stats.bestTiles[record.maxTile] ?? 0) + 1 },
+    },
+  };
+}
+
+export function winRate(stats: LifetimeStats): number {
+  return stats.gamesPlayed === 0 ? 0 : stats.gamesWon / stats.gamesPlayed;
+}
+
+export function configLabel(config: GameConfig, layerMode: LayerMode): string {
+  const shape = [config.width, config.height, config.layers, ...config.hyper];
+  const variant = config.variant === 'classic' ? "" : ` ${config.variant}`;
+  return `${shape.join("×")} ${layerMode}${variant}`;
+}
+
+export function formatDuration(duration: number): string {
+  const seconds = Math.round(duration / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Quotes a CSV field when it contains a separator, quote or line break
+function csvField(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number | boolean)[][]): string {
+  return rows.map(row => row.map(csvField).join(",")).join("\n");
+}
+
+export function leaderboardToCsv(leaderboard: GameRecord[]): string {
+  return toCsv([
+    ["rank", "date", "board", "seed", "score", "max_tile", "moves", "duration_ms", "won"],
+    ...leaderboard.map((record, index) => [
+      index + 1,
+      record.date,
+      configLabel(record.config, record.layerMode),
+      record.seed,
+      record.score,
+      record.maxTile,
+      record.moves,
+      record.duration,
+      record.won,
+    ]),
+  ]);
+}
+
+export function statsToCsv(stats: LifetimeStats): string {
+  const tiles = Object.keys(stats.bestTiles).map(Number).sort((a, b) => a - b);
+  return toCsv([
+    ["stat", "value"],
+    ["games_played", stats.gamesPlayed],
+    ["games_won", stats.gamesWon],
+    ["win_rate", winRate(stats).toFixed(3)],
+    ...tiles.map(tile => [`best_tile_${tile}`, stats.bestTiles[tile]]),
+  ]);
+}
+
+export function serializeStats(file: StatsFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+export function saveStats(file: StatsFile): void {
+  writeStored(STATS_STORAGE_KEY, file);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// A stored leaderboard entry, or null when any of its fields is missing or unusable
+function readGameRecord(entry: unknown): GameRecord | null {
+  if (!isRecord(entry)) return null;
+  const { date, layerMode, seed, score, maxTile, moves, duration, won } = entry;
+  let config: GameConfig;
+  try {
+    config = validateConfig(entry.config);
+  } catch (error) {
+    if (!(error instanceof SaveError)) throw error;
+    return null;
+  }
+  if (
+    typeof date !== "string" ||
+    (layerMode !== 'independent' && layerMode !== 'stacked') ||
+    typeof seed !== "string" ||
+    !isCount(score) ||
+    !isCount(maxTile) ||
+    !isCount(moves) ||
+    !(typeof duration === "number" && duration >= 0) ||
+    typeof won !== "boolean"
+  ) {
+    return null;
+  }
+  return { date, config, layerMode, seed, score, maxTile, moves, duration, won };
+}
+
+// Stored lifetime statistics without any tile counts that aren't counts of tiles
+function readLifetimeStats(stats: unknown): LifetimeStats | null {
+  if (!isRecord(stats) || !isCount(stats.gamesPlayed) || !isCount(stats.gamesWon) || !isRecord(stats.bestTiles)) {
+    return null;
+  }
+  const bestTiles: Record<number, number> = {};
+  for (const [tile, count] of Object.entries(stats.bestTiles)) {
+    if (isCount(Number(tile)) && isCount(count)) bestTiles[Number(tile)] = count;
+  }
+  return { gamesPlayed: stats.gamesPlayed, gamesWon: stats.gamesWon, bestTiles };
+}
+
+// Starts over from empty statistics when nothing usable is stored, and drops leaderboard
+// entries that can't be read
+export function loadStats(): StatsFile {
+  const file = readStored(STATS_STORAGE_KEY, STATS_VERSION, (file): StatsFile | null => {
+    const stats = readLifetimeStats(file.stats);
+    if (!Array.isArray(file.leaderboard) || !stats) return null;
+    const leaderboard = file.leaderboard.flatMap(entry => {
+      const record = readGameRecord(entry);
+      return record ? [record] : [];
+    });
+    return { version: STATS_VERSION, leaderboard, stats };
+  });
+  return file ?? emptyStats();
+}
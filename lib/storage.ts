@@ -0,0 +1,27 @@
+// Small versioned files in localStorage: statistics, settings and records. Each file is a
+// JSON object with a version; a file of another version, or one that can't be read, is
+// treated as missing and the caller starts over from its defaults.
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function writeStored(key: string, file: { version: number }): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(file));
+  } catch {
+    // Storage can be full or disabled; the file then only lasts for the session
+  }
+}
+
+// What read makes of the stored file, or null when nothing usable is stored under the key
+export function readStored<T>(key: string, version: number, read: (file: Record<string, unknown>) => T | null): T | null {
+  try {
+    const json = localStorage.getItem(key);
+    if (!json) return null;
+    const file: unknown = JSON.parse(json);
+    return isRecord(file) && file.version === version ? read(file) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,390 @@
+// Colour themes: the tile palette, the layer bases and background, the lighting environment
+// and the tile material. Ships with built-in themes; players can import their own as JSON,
+// one theme or an array of them. Anything an imported theme leaves out comes from the
+// classic theme, so a theme can be as small as { "id": "mine", "name": "Mine", "background": "#000" }.
+
+import { specialTile, type SpecialTile } from "./engine";
+import { isRecord, readStored, writeStored } from "./storage";
+
+// The lighting presets the 3D view can use
+export const ENVIRONMENT_PRESETS = [
+  'apartment',
+  'city',
+  'dawn',
+  'forest',
+  'lobby',
+  'night',
+  'park',
+  'studio',
+  'sunset',
+  'warehouse',
+] as const;
+
+export type EnvironmentPreset = (typeof ENVIRONMENT_PRESETS)[number];
+
+export interface TileMaterial {
+  roughness: number;
+  metalness: number;
+  clearcoat: number;
+  clearcoatRoughness: number;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  // Page and scene background
+  background: string;
+  // Labels drawn straight onto the background
+  text: string;
+  // Tile colours by value, 0 being an empty cell. Tiles past the palette get generated hues.
+  tiles: Record<number, string>;
+  // Text on tiles, by value where the default doesn't read well
+  tileText: Record<number, string>;
+  defaultTileText: string;
+  // Lightness, in percent, of the generated hues for tiles past the palette
+  overflowLightness: number;
+  special: Record<SpecialTile, string>;
+  // Base of the current layer and of the others
+  layerBase: string;
+  otherLayerBase: string;
+  gridLines: string;
+  button: string;
+  buttonHover: string;
+  buttonText: string;
+  // How the game stands: the win and game-over banners, the rim around stuck layers,
+  // the hint arrow, and the text on those banners
+  win: string;
+  lose: string;
+  stuck: string;
+  hint: string;
+  statusText: string;
+  environment: EnvironmentPreset;
+  tileMaterial: TileMaterial;
+}
+
+export interface ThemeFile {
+  version: number;
+  selected: string;
+  // Imported themes
+  custom: Theme[];
+}
+
+export const THEME_VERSION = 1;
+export const THEME_STORAGE_KEY = "5d2048:theme";
+
+export const CLASSIC_THEME: Theme = {
+  id: "classic",
+  name: "Classic",
+  background: "#faf8ef",
+  text: "#776e65",
+  tiles: {
+    0: "#cdc1b4",
+    2: "#eee4da",
+    4: "#ede0c8",
+    8: "#f2b179",
+    16: "#f59563",
+    32: "#f67c5f",
+    64: "#f65e3b",
+    128: "#edcf72",
+    256: "#edcc61",
+    512: "#edc850",
+    1024: "#edc53f",
+    2048: "#edc22e",
+  },
+  tileText: { 2: "#776e65", 4: "#776e65" },
+  defaultTileText: "#f9f6f2",
+  overflowLightness: 24,
+  special: { blocker: "#3c3a32", wildcard: "#9c6ade", multiplier: "#d4af37", bomb: "#2b2b2b" },
+  layerBase: "#bbada0",
+  otherLayerBase: "#d6ccc2",
+  gridLines: "#a39489",
+  button: "#8f7a66",
+  buttonHover: "#9f8a76",
+  buttonText: "#f9f6f2",
+  win: "#4caf50",
+  lose: "#f44336",
+  stuck: "#f44336",
+  hint: "#4caf50",
+  statusText: "#ffffff",
+  environment: 'apartment',
+  tileMaterial: { roughness: 0.2, metalness: 0.1, clearcoat: 0.3, clearcoatRoughness: 0.1 },
+};
+
+export const THEMES: Theme[] = [
+  CLASSIC_THEME,
+  {
+    id: "dark",
+    name: "Dark",
+    background: "#1b1b22",
+    text: "#d6d3cf",
+    tiles: {
+      0: "#34343f",
+      2: "#4a4e69",
+      4: "#5c5f80",
+      8: "#b5683c",
+      16: "#c4553a",
+      32: "#cf433c",
+      64: "#d9303f",
+      128: "#c9a227",
+      256: "#d1ad35",
+      512: "#d9b845",
+      1024: "#e1c356",
+      2048: "#ead06a",
+    },
+    tileText: { 128: "#1b1b22", 256: "#1b1b22", 512: "#1b1b22", 1024: "#1b1b22", 2048: "#1b1b22" },
+    defaultTileText: "#f0eee9",
+    overflowLightness: 40,
+    special: { blocker: "#6b6b7b", wildcard: "#9c6ade", multiplier: "#d4af37", bomb: "#111111" },
+    layerBase: "#4d4d5c",
+    otherLayerBase: "#2a2a33",
+    gridLines: "#6b6b7b",
+    button: "#4a4e69",
+    buttonHover: "#5c5f80",
+    buttonText: "#f0eee9",
+    win: "#3d8b40",
+    lose: "#c62828",
+    stuck: "#e05252",
+    hint: "#6fcf73",
+    statusText: "#f0eee9",
+    environment: 'night',
+    tileMaterial: { roughness: 0.3, metalness: 0.2, clearcoat: 0.5, clearcoatRoughness: 0.1 },
+  },
+  {
+    // Saturated colours on black, each tile with the text colour that contrasts most with it
+    id: "high-contrast",
+    name: "High contrast",
+    background: "#000000",
+    text: "#ffffff",
+    tiles: {
+      0: "#1a1a1a",
+      2: "#ffffff",
+      4: "#ffff00",
+      8: "#00ffff",
+      16: "#ff00ff",
+      32: "#00ff00",
+      64: "#ff8000",
+      128: "#0080ff",
+      256: "#ff0000",
+      512: "#8000ff",
+      1024: "#00ff80",
+      2048: "#ffd700",
+    },
+    tileText: { 512: "#ffffff" },
+    defaultTileText: "#000000",
+    overflowLightness: 50,
+    special: { blocker: "#808080", wildcard: "#c080ff", multiplier: "#ffd700", bomb: "#ff4000" },
+    layerBase: "#595959",
+    otherLayerBase: "#262626",
+    gridLines: "#ffffff",
+    button: "#ffffff",
+    buttonHover: "#ffff00",
+    buttonText: "#000000",
+    win: "#00ff00",
+    lose: "#ff0000",
+    stuck: "#ff0000",
+    hint: "#00ff00",
+    statusText: "#000000",
+    environment: 'studio',
+    // Matte tiles, so reflections never wash out the numbers
+    tileMaterial: { roughness: 0.7, metalness: 0, clearcoat: 0, clearcoatRoughness: 0 },
+  },
+  {
+    // Built on the Okabe-Ito palette, which stays distinct with every common colour vision deficiency
+    id: "colorblind",
+    name: "Colorblind-safe",
+    background: "#ffffff",
+    text: "#333333",
+    tiles: {
+      0: "#e0e0e0",
+      2: "#f0f0f0",
+      4: "#f0e442",
+      8: "#e69f00",
+      16: "#56b4e9",
+      32: "#009e73",
+      64: "#d55e00",
+      128: "#0072b2",
+      256: "#cc79a7",
+      512: "#999999",
+      1024: "#6a3d9a",
+      2048: "#000000",
+    },
+    tileText: {
+      2: "#000000",
+      4: "#000000",
+      8: "#000000",
+      16: "#000000",
+      32: "#000000",
+      64: "#000000",
+      256: "#000000",
+      512: "#000000",
+    },
+    defaultTileText: "#ffffff",
+    overflowLightness: 24,
+    special: { blocker: "#3c3a32", wildcard: "#882255", multiplier: "#d4af37", bomb: "#2b2b2b" },
+    layerBase: "#bdbdbd",
+    otherLayerBase: "#e0e0e0",
+    gridLines: "#7f7f7f",
+    button: "#0072b2",
+    buttonHover: "#56b4e9",
+    buttonText: "#ffffff",
+    win: "#009e73",
+    lose: "#d55e00",
+    stuck: "#d55e00",
+    hint: "#0072b2",
+    statusText: "#ffffff",
+    environment: 'apartment',
+    tileMaterial: CLASSIC_THEME.tileMaterial,
+  },
+];
+
+export function tileColor(theme: Theme, value: number): string {
+  if (theme.tiles[value]) return theme.tiles[value];
+  const special = specialTile(value);
+  if (special) return theme.special[special];
+
+  // Past the palette every doubling gets its own hue, so huge tiles stay distinct
+  const step = Math.log2(value) - 12;
+  return `hsl(${(30 + step * 137) % 360}, 45%, ${Math.max(14, theme.overflowLightness - step)}%)`;
+}
+
+export function tileTextColor(theme: Theme, value: number): string {
+  return theme.tileText[value] ?? theme.defaultTileText;
+}
+
+export class ThemeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ThemeError";
+  }
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function isColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+const COLOR_FIELDS = [
+  'background',
+  'text',
+  'defaultTileText',
+  'layerBase',
+  'otherLayerBase',
+  'gridLines',
+  'button',
+  'buttonHover',
+  'buttonText',
+  'win',
+  'lose',
+  'stuck',
+  'hint',
+  'statusText',
+] as const;
+
+// A palette keyed by tile value, with every colour in hex
+function colorsByValue(value: unknown, where: string): Record<number, string> {
+  if (!isRecord(value)) throw new ThemeError(`${where} is not a table of colours`);
+  const colors: Record<number, string> = {};
+  for (const [key, color] of Object.entries(value)) {
+    const tile = Number(key);
+    if (!Number.isInteger(tile) || tile < 0 || (tile > 0 && !Number.isInteger(Math.log2(tile)))) {
+      throw new ThemeError(`${where} has "${key}", which is not a tile value`);
+    }
+    if (!isColor(color)) throw new ThemeError(`${where} has an invalid colour for ${key}`);
+    colors[tile] = color;
+  }
+  return colors;
+}
+
+// Checks an imported theme and fills in whatever it leaves out from the classic theme
+function validateTheme(data: unknown): Theme {
+  if (!isRecord(data)) throw new ThemeError("Theme is not an object");
+  const { id, name } = data;
+  if (typeof id !== "string" || !id.trim()) throw new ThemeError("Theme has no id");
+  const where = `Theme "${id}"`;
+  if (typeof name !== "string" || !name.trim()) throw new ThemeError(`${where} has no name`);
+
+  const theme: Theme = { ...CLASSIC_THEME, id, name };
+  for (const field of COLOR_FIELDS) {
+    if (data[field] === undefined) continue;
+    if (!isColor(data[field])) throw new ThemeError(`${where} has an invalid colour for ${field}; use hex, like #bbada0`);
+    theme[field] = data[field];
+  }
+  if (data.tiles !== undefined) theme.tiles = { ...CLASSIC_THEME.tiles, ...colorsByValue(data.tiles, `${where} tiles`) };
+  if (data.tileText !== undefined) theme.tileText = colorsByValue(data.tileText, `${where} tileText`);
+
+  if (data.special !== undefined) {
+    if (!isRecord(data.special)) throw new ThemeError(`${where} special is not a table of colours`);
+    const special = { ...CLASSIC_THEME.special };
+    for (const kind of Object.keys(special) as SpecialTile[]) {
+      const color = data.special[kind];
+      if (color === undefined) continue;
+      if (!isColor(color)) throw new ThemeError(`${where} has an invalid colour for the ${kind} tile`);
+      special[kind] = color;
+    }
+    theme.special = special;
+  }
+
+  const { overflowLightness, environment, tileMaterial } = data;
+  if (overflowLightness !== undefined) {
+    if (typeof overflowLightness !== "number" || overflowLightness < 0 || overflowLightness > 100) {
+      throw new ThemeError(`${where} has an invalid overflowLightness`);
+    }
+    theme.overflowLightness = overflowLightness;
+  }
+  if (environment !== undefined) {
+    if (!ENVIRONMENT_PRESETS.includes(environment as EnvironmentPreset)) {
+      throw new ThemeError(`${where} has an unknown environment "${String(environment)}"`);
+    }
+    theme.environment = environment as EnvironmentPreset;
+  }
+  if (tileMaterial !== undefined) {
+    if (!isRecord(tileMaterial)) throw new ThemeError(`${where} tileMaterial is not an object`);
+    const material = { ...CLASSIC_THEME.tileMaterial };
+    for (const key of Object.keys(material) as (keyof TileMaterial)[]) {
+      const amount = tileMaterial[key];
+      if (amount === undefined) continue;
+      if (typeof amount !== "number" || amount < 0 || amount > 1) {
+        throw new ThemeError(`${where} tileMaterial.${key} must be between 0 and 1`);
+      }
+      material[key] = amount;
+    }
+    theme.tileMaterial = material;
+  }
+  return theme;
+}
+
+// Parses one theme or an array of them; throws a ThemeError describing the first problem found
+export function parseThemes(json: string): Theme[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ThemeError("Theme file is not valid JSON");
+  }
+  const themes = (Array.isArray(data) ? data : [data]).map(validateTheme);
+  if (themes.length === 0) throw new ThemeError("Theme file has no themes");
+  const builtin = themes.find(theme => THEMES.some(other => other.id === theme.id));
+  if (builtin) throw new ThemeError(`Theme id "${builtin.id}" is taken by a built-in theme`);
+  return themes;
+}
+
+export function saveThemes(file: ThemeFile): void {
+  writeStored(THEME_STORAGE_KEY, file);
+}
+
+// The stored choice and imported themes; imported themes that no longer validate are dropped
+export function loadThemes(): ThemeFile {
+  const file = readStored(THEME_STORAGE_KEY, THEME_VERSION, ({ selected, custom }) => {
+    if (typeof selected !== "string" || !Array.isArray(custom)) return null;
+    const themes = custom.flatMap((theme: unknown) => {
+      try {
+        return [validateTheme(theme)];
+      } catch {
+        return [];
+      }
+    });
+    return { version: THEME_VERSION, selected, custom: themes };
+  });
+  return file ?? { version: THEME_VERSION, selected: CLASSIC_THEME.id, custom: [] };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG, newGame, PRESET_CONFIGS } from "./engine";
+import { garbageFor, parseMessage, validatePeerMessage, type ServerMessage } from "./versus";
+
+// Peer messages arrive as JSON, so malformed ones are built the same way
+function received(message: unknown): ServerMessage {
+  return parseMessage<ServerMessage>(JSON.stringify(message))!;
+}
+
+const START = { type: 'start', config: DEFAULT_CONFIG, layerMode: 'independent', seed: "race", target: 2048, garbage: true };
+
+function mirror(overrides: Record<string, unknown> = {}) {
+  const { board } = newGame(DEFAULT_CONFIG, 'independent', "race").state;
+  return { board, currentLayer: 0, score: 0, gameOver: false, won: false, ...overrides };
+}
+
+describe("parseMessage", () => {
+  it("reads an object with a type", () => {
+    expect(parseMessage('{"type":"peer-left"}')).toEqual({ type: 'peer-left' });
+  });
+
+  it("returns null for malformed JSON and messages without a type", () => {
+    expect(parseMessage("{")).toBeNull();
+    expect(parseMessage("null")).toBeNull();
+    expect(parseMessage('{"type":3}')).toBeNull();
+  });
+});
+
+describe("validatePeerMessage", () => {
+  it("accepts a race start on a playable board", () => {
+    expect(validatePeerMessage(received(START), DEFAULT_CONFIG)).toEqual(START);
+  });
+
+  it("rejects a race start with a bad layer mode, target or garbage flag", () => {
+    expect(validatePeerMessage(received({ ...START, layerMode: 'sideways' }), DEFAULT_CONFIG)).toBeNull();
+    expect(validatePeerMessage(received({ ...START, target: 100 }), DEFAULT_CONFIG)).toBeNull();
+    expect(validatePeerMessage(received({ ...START, target: 1 }), DEFAULT_CONFIG)).toBeNull();
+    expect(validatePeerMessage(received({ ...START, garbage: "yes" }), DEFAULT_CONFIG)).toBeNull();
+    expect(validatePeerMessage(received({ ...START, seed: 7 }), DEFAULT_CONFIG)).toBeNull();
+  });
+
+  it("rejects a race start with an unreadable or oversized configuration", () => {
+    expect(validatePeerMessage(received({ ...START, config: { width: "4" } }), DEFAULT_CONFIG)).toBeNull();
+    const huge = { ...PRESET_CONFIGS['3×3×2×2×2'], hyper: [8, 8] };
+    expect(validatePeerMessage(received({ ...START, config: huge }), DEFAULT_CONFIG)).toBeNull();
+  });
+
+  it("accepts a board that fits the race's configuration", () => {
+    const message = received({ type: 'board', mirror: mirror() });
+    expect(validatePeerMessage(message, DEFAULT_CONFIG)).toEqual(message);
+  });
+
+  it("rejects a board that doesn't fit the race or has a bad layer or score", () => {
+    expect(validatePeerMessage(received({ type: 'board', mirror: mirror() }), PRESET_CONFIGS['5×5'])).toBeNull();
+    expect(validatePeerMessage(received({ type: 'board', mirror: mirror({ currentLayer: 1 }) }), DEFAULT_CONFIG)).toBeNull();
+    expect(validatePeerMessage(received({ type: 'board', mirror: mirror({ score: 1.5 }) }), DEFAULT_CONFIG)).toBeNull();
+    expect(validatePeerMessage(received({ type: 'board', mirror: null }), DEFAULT_CONFIG)).toBeNull();
+  });
+
+  it("accepts only a positive whole number of garbage blockers", () => {
+    expect(validatePeerMessage(received({ type: 'garbage', blockers: 2 }), DEFAULT_CONFIG)).toEqual({ type: 'garbage', blockers: 2 });
+    expect(validatePeerMessage(received({ type: 'garbage', blockers: 0 }), DEFAULT_CONFIG)).toBeNull();
+    expect(validatePeerMessage(received({ type: 'garbage', blockers: 1.5 }), DEFAULT_CONFIG)).toBeNull();
+  });
+});
+
+describe("garbageFor", () => {
+  it("sends nothing for small merges and one more blocker per doubling above the threshold", () => {
+    expect(garbageFor([2, 64])).toBe(0);
+    expect(garbageFor([128])).toBe(1);
+    expect(garbageFor([512, 128, 4])).toBe(4);
+  });
+});
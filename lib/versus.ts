@@ -0,0 +1,120 @@
+// Two-player races: the messages players exchange through the relay (scripts/relay.ts)
+// and the garbage rule that turns big merges into blockers on the opponent's board.
+
+import { cellCount, LAYER_AXIS, type Board } from "./board";
+import { boardShape, type GameConfig, type LayerMode } from "./engine";
+import { isPowerOfTwo, SaveError, validateBoard, validateConfig } from "./persistence";
+
+export const DEFAULT_RELAY_URL = "ws://localhost:8787";
+export const RELAY_PORT = 8787;
+
+// Largest board, counted with every layer it may grow to, another player can start a race on
+export const MAX_RACE_CELLS = 1024;
+
+// Smallest merged tile that sends garbage; every doubling above it sends one more blocker
+export const GARBAGE_MIN_TILE = 128;
+
+// What the opponent sees of a board
+export interface BoardMirror {
+  board: Board;
+  currentLayer: number;
+  score: number;
+  gameOver: boolean;
+  // Reached the target tile, which wins the race
+  won: boolean;
+}
+
+// Messages a player sends to the relay
+export type ClientMessage =
+  | { type: 'join'; room: string }
+  // Everything else is passed on to the other player in the room
+  | PeerMessage;
+
+export interface StartMessage {
+  type: 'start';
+  config: GameConfig;
+  layerMode: LayerMode;
+  seed: string;
+  target: number;
+  garbage: boolean;
+}
+
+// Messages passed between the two players
+export type PeerMessage =
+  // The first player to join starts the race once the second one arrives
+  | StartMessage
+  | { type: 'board'; mirror: BoardMirror }
+  | { type: 'garbage'; blockers: number };
+
+// Messages the relay itself sends
+export type RelayMessage =
+  | { type: 'joined'; host: boolean }
+  | { type: 'peer-joined' }
+  | { type: 'peer-left' }
+  | { type: 'error'; message: string };
+
+export type ServerMessage = RelayMessage | PeerMessage;
+
+// Blockers a turn's merges send to the opponent
+export function garbageFor(merged: number[]): number {
+  return merged
+    .filter(value => value >= GARBAGE_MIN_TILE)
+    .reduce((total, value) => total + Math.log2(value / GARBAGE_MIN_TILE) + 1, 0);
+}
+
+// Parses a message, returning null for anything that isn't an object with a type
+export function parseMessage<T extends { type: string }>(data: string): T | null {
+  try {
+    const message = JSON.parse(data);
+    return typeof message?.type === "string" ? (message as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Checks what the other player sent before it reaches the game: a race start has to
+// describe a playable board, and a mirrored board has to fit the race's configuration.
+// Returns null for anything malformed.
+export function validatePeerMessage(message: ServerMessage, raceConfig: GameConfig): ServerMessage | null {
+  try {
+    switch (message.type) {
+      case 'start': {
+        const config = validateConfig(message.config);
+        const { layerMode, seed, target, garbage } = message;
+        const shape = boardShape({ ...config, layers: config.maxLayers });
+        if (
+          cellCount(shape) > MAX_RACE_CELLS ||
+          (layerMode !== 'independent' && layerMode !== 'stacked') ||
+          typeof seed !== "string" ||
+          !(typeof target === "number" && target > 1 && isPowerOfTwo(target)) ||
+          typeof garbage !== "boolean"
+        ) {
+          return null;
+        }
+        return { type: 'start', config, layerMode, seed, target, garbage };
+      }
+      case 'board': {
+        const { mirror } = message;
+        if (
+          typeof mirror !== "object" || mirror === null ||
+          !Number.isInteger(mirror.score) ||
+          typeof mirror.gameOver !== "boolean" ||
+          typeof mirror.won !== "boolean"
+        ) {
+          return null;
+        }
+        const board = validateBoard(mirror.board, raceConfig);
+        const { currentLayer, score, gameOver, won } = mirror;
+        if (!Number.isInteger(currentLayer) || currentLayer < 0 || currentLayer >= board.shape[LAYER_AXIS]) return null;
+        return { type: 'board', mirror: { board, currentLayer, score, gameOver, won } };
+      }
+      case 'garbage':
+        return Number.isInteger(message.blockers) && message.blockers > 0 ? message : null;
+      default:
+        return message;
+    }
+  } catch (error) {
+    if (error instanceof SaveError) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,86 @@
+// Local relay for the versus mode: pairs two browsers in a room and passes their
+// messages along. Keeps no game state of its own.
+//
+//   npm run relay -- --port 8787
+
+import { parseArgs } from "node:util";
+import { WebSocketServer, type WebSocket } from "ws";
+import { parseMessage, RELAY_PORT, type ClientMessage, type RelayMessage } from "../lib/versus";
+
+const ROOM_SIZE = 2;
+
+function send(socket: WebSocket, message: RelayMessage) {
+  socket.send(JSON.stringify(message));
+}
+
+function main() {
+  const { values } = parseArgs({ options: { port: { type: "string" }, host: { type: "string" } } });
+  const port = values.port === undefined ? RELAY_PORT : Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    process.stderr.write("--port must be a port number\n");
+    process.exit(1);
+  }
+
+  const rooms = new Map<string, Set<WebSocket>>();
+  const server = new WebSocketServer({ port, host: values.host ?? "localhost" });
+
+  server.on("connection", socket => {
+    let room: string | null = null;
+
+    socket.on("message", data => {
+      const message = parseMessage<ClientMessage>(data.toString());
+      if (!message) return;
+
+      if (message.type === 'join') {
+        if (typeof message.room !== "string" || message.room === "") {
+          send(socket, { type: 'error', message: "Room name is missing" });
+          return;
+        }
+        const players = rooms.get(message.room) ?? new Set<WebSocket>();
+        if (room !== null || players.size >= ROOM_SIZE) {
+          send(socket, { type: 'error', message: room !== null ? "Already in a room" : "Room is full" });
+          return;
+        }
+        room = message.room;
+        players.add(socket);
+        rooms.set(room, players);
+        send(socket, { type: 'joined', host: players.size === 1 });
+        players.forEach(player => {
+          if (player !== socket) send(player, { type: 'peer-joined' });
+        });
+        return;
+      }
+
+      if (room === null) return;
+      rooms.get(room)?.forEach(player => {
+        if (player !== socket) player.send(JSON.stringify(message));
+      });
+    });
+
+    // A malformed frame fails only the connection it came in on
+    socket.on("error", error => {
+      process.stderr.write(`Closing a connection after an error: ${error.message}\n`);
+      socket.close();
+    });
+
+    socket.on("close", () => {
+      if (room === null) return;
+      const players = rooms.get(room);
+      players?.delete(socket);
+      players?.forEach(player => send(player, { type: 'peer-left' }));
+      if (players?.size === 0) rooms.delete(room);
+    });
+  });
+
+  server.on("error", error => {
+    process.stderr.write(`Versus relay failed: ${error.message}\n`);
+    process.exitCode = 1;
+    server.close();
+  });
+
+  server.on("listening", () => {
+    process.stdout.write(`Versus relay listening on ws://${values.host ?? "localhost"}:${port}\n`);
+  });
+}
+
+main();
@@ -0,0 +1,127 @@
+// Batch simulator: plays many games headlessly and prints summary statistics.
+//
+//   npm run simulate -- --games 2000 --policy greedy --board 4×4×4 --four-chance 0.2 --format csv
+//
+// Run with --help for every option.
+
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { PRESET_CONFIGS, RULE_VARIANTS, type GameConfig, type LayerMode, type RuleVariant } from "../lib/engine";
+import { DEFAULT_SIMULATION, POLICIES, simulate, summaryToCsv, type Policy } from "../lib/simulate";
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --games <n>          games to play (default ${DEFAULT_SIMULATION.games})
+  --policy <name>      ${POLICIES.join(" | ")} (default ${DEFAULT_SIMULATION.policy})
+  --board <preset>     ${Object.keys(PRESET_CONFIGS).join(" | ")} (default 4×4)
+  --size <w,h,l[,…]>   board size instead of a preset: width, height, layers, hyper axes
+  --max-layers <n>     layers a board may grow to
+  --stacked            slide tiles through the layers instead of playing them separately
+  --variant <name>     ${Object.keys(RULE_VARIANTS).join(" | ")} (default classic)
+  --four-chance <p>    share of spawns that are 4s (default ${DEFAULT_SIMULATION.fourChance})
+  --target <tile>      tile counted as reaching the target (default ${DEFAULT_SIMULATION.target})
+  --max-moves <n>      cut games off after this many turns (default ${DEFAULT_SIMULATION.maxMoves})
+  --depth <n>          solver search depth (default ${DEFAULT_SIMULATION.solver.depth})
+  --seed <text>        seed prefix, games use <seed>-0, <seed>-1, … (default ${DEFAULT_SIMULATION.seed})
+  --format <json|csv>  output format (default json)
+  --out <file>         write the summary to a file instead of stdout
+`;
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function positiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) fail(`--${name} must be a positive integer`);
+  return number;
+}
+
+function parseConfig(
+  board: string | undefined,
+  size: string | undefined,
+  maxLayers: string | undefined,
+  variant: string | undefined
+): GameConfig {
+  let config = PRESET_CONFIGS[board ?? "4×4"];
+  if (!config) fail(`Unknown board preset "${board}"`);
+
+  if (size !== undefined) {
+    const sizes = size.split(/[,x×]/).map(Number);
+    if (sizes.length < 3 || !sizes.every(axis => Number.isInteger(axis) && axis > 0)) {
+      fail("--size needs at least width, height and layers");
+    }
+    const [width, height, layers, ...hyper] = sizes;
+    config = { ...config, width, height, layers, maxLayers: layers, hyper };
+  }
+  const max = positiveInteger(maxLayers, "max-layers", Math.max(config.maxLayers, config.layers));
+  if (max < config.layers) fail("--max-layers can't be below the starting layer count");
+  if (variant !== undefined && !Object.hasOwn(RULE_VARIANTS, variant)) fail(`Unknown rule variant "${variant}"`);
+  return { ...config, maxLayers: max, variant: (variant as RuleVariant | undefined) ?? config.variant };
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      games: { type: "string" },
+      policy: { type: "string" },
+      board: { type: "string" },
+      size: { type: "string" },
+      "max-layers": { type: "string" },
+      stacked: { type: "boolean" },
+      variant: { type: "string" },
+      "four-chance": { type: "string" },
+      target: { type: "string" },
+      "max-moves": { type: "string" },
+      depth: { type: "string" },
+      seed: { type: "string" },
+      format: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const policy = (values.policy ?? DEFAULT_SIMULATION.policy) as Policy;
+  if (!POLICIES.includes(policy)) fail(`Unknown policy "${values.policy}"`);
+  const fourChance = values["four-chance"] === undefined ? DEFAULT_SIMULATION.fourChance : Number(values["four-chance"]);
+  if (!(fourChance >= 0 && fourChance <= 1)) fail("--four-chance must be between 0 and 1");
+  const format = values.format ?? "json";
+  if (format !== "json" && format !== "csv") fail(`Unknown format "${format}"`);
+  const layerMode: LayerMode = values.stacked ? 'stacked' : 'independent';
+
+  const options = {
+    ...DEFAULT_SIMULATION,
+    config: parseConfig(values.board, values.size, values["max-layers"], values.variant),
+    layerMode,
+    policy,
+    games: positiveInteger(values.games, "games", DEFAULT_SIMULATION.games),
+    seed: values.seed ?? DEFAULT_SIMULATION.seed,
+    fourChance,
+    target: positiveInteger(values.target, "target", DEFAULT_SIMULATION.target),
+    maxMoves: positiveInteger(values["max-moves"], "max-moves", DEFAULT_SIMULATION.maxMoves),
+    solver: { ...DEFAULT_SIMULATION.solver, depth: positiveInteger(values.depth, "depth", DEFAULT_SIMULATION.solver.depth) },
+  };
+
+  // Progress goes to stderr so stdout stays clean for the summary
+  const summary = simulate(options, done => {
+    if (process.stderr.isTTY && (done % 50 === 0 || done === options.games)) {
+      process.stderr.write(`\r${done}/${options.games} games`);
+    }
+  });
+  if (process.stderr.isTTY) process.stderr.write("\n");
+
+  const output = format === "csv" ? `${summaryToCsv(summary)}\n` : `${JSON.stringify(summary, null, 2)}\n`;
+  if (values.out) {
+    writeFileSync(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main();